@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useId, useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import { keepPreviousData } from "@tanstack/react-query";
+import { api } from "~/trpc/react";
+
+// Leaflet needs the browser
+const AddressPreviewMap = dynamic(() => import("./address-preview-map"), {
+  ssr: false,
+});
+
+// The server doesn't look up anything shorter
+const MIN_QUERY_LENGTH = 3;
+const SUGGEST_DEBOUNCE_MS = 300;
+
+export interface AddressSuggestion {
+  formattedAddress: string;
+  lat: number;
+  lng: number;
+  inRegion: boolean;
+  partialMatch: boolean;
+}
+
+interface AddressPickerProps {
+  regionId: string;
+  query: string;
+  // Typing invalidates the pick, so callers clear it here
+  onQueryChange: (query: string) => void;
+  selected: AddressSuggestion | null;
+  onSelect: (suggestion: AddressSuggestion) => void;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+const isSameLocation = (a: AddressSuggestion, b: AddressSuggestion) =>
+  a.formattedAddress === b.formattedAddress &&
+  a.lat === b.lat &&
+  a.lng === b.lng;
+
+/**
+ * An address input that suggests matches as you type, ranked towards the region. Nothing counts
+ * until a candidate is picked from the list or the preview map below it.
+ */
+export function AddressPicker({
+  regionId,
+  query,
+  onQueryChange,
+  selected,
+  onSelect,
+  disabled,
+  autoFocus,
+}: AddressPickerProps) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const listboxId = useId();
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setDebouncedQuery(query),
+      SUGGEST_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  // Once something is picked, keep showing the candidates it was picked from
+  const suggestionsQuery = api.traffic.suggestAddresses.useQuery(
+    { regionId, query: debouncedQuery },
+    {
+      enabled: !selected && debouncedQuery.trim().length >= MIN_QUERY_LENGTH,
+      placeholderData: keepPreviousData,
+      staleTime: 5 * 60 * 1000,
+    },
+  );
+  const suggestions = useMemo(
+    () => suggestionsQuery.data?.suggestions ?? [],
+    [suggestionsQuery.data],
+  );
+  // A pick from elsewhere, like a pin dropped on the map, is shown alongside the suggestions
+  const candidates = useMemo(
+    () =>
+      selected &&
+      !suggestions.some((suggestion) => isSameLocation(suggestion, selected))
+        ? [selected, ...suggestions]
+        : suggestions,
+    [selected, suggestions],
+  );
+  const selectedIndex = selected
+    ? candidates.findIndex((candidate) => isSameLocation(candidate, selected))
+    : -1;
+
+  const pick = (suggestion: AddressSuggestion) => {
+    onSelect(suggestion);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted(
+        (highlighted - 1 + suggestions.length) % suggestions.length,
+      );
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const suggestion = suggestions[highlighted];
+      if (suggestion) pick(suggestion);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  const isSearching =
+    !selected &&
+    query.trim().length >= MIN_QUERY_LENGTH &&
+    (query !== debouncedQuery || suggestionsQuery.isFetching);
+
+  return (
+    <div>
+      <div className="relative">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            onQueryChange(e.target.value);
+            setIsOpen(true);
+            setHighlighted(0);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          placeholder="Start typing an address..."
+          disabled={disabled}
+          autoFocus={autoFocus}
+          role="combobox"
+          aria-controls={listboxId}
+          aria-expanded={isOpen && suggestions.length > 0}
+          aria-autocomplete="list"
+        />
+
+        {/* Above the preview map's panes, which Leaflet stacks at z-index 400 and up */}
+        {isOpen && !selected && suggestions.length > 0 && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            className="absolute z-[1000] mt-1 max-h-64 w-full overflow-y-auto rounded-md border border-gray-200 bg-white shadow-lg"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={`${suggestion.formattedAddress}-${suggestion.lat}-${suggestion.lng}`}
+                role="option"
+                aria-selected={index === highlighted}
+                // Pick before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pick(suggestion);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`cursor-pointer px-3 py-2 text-sm ${
+                  index === highlighted ? "bg-blue-50" : ""
+                }`}
+              >
+                <SuggestionLabel suggestion={suggestion} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-1 text-xs">
+        {selected ? (
+          <span className="text-green-600">
+            ✓ {selected.formattedAddress} ({selected.lat.toFixed(4)},{" "}
+            {selected.lng.toFixed(4)})
+            {!selected.inRegion && (
+              <span className="ml-2 text-amber-700">Outside the region</span>
+            )}
+          </span>
+        ) : suggestionsQuery.error ? (
+          <span className="text-red-600">{suggestionsQuery.error.message}</span>
+        ) : isSearching ? (
+          <span className="text-gray-500">Searching...</span>
+        ) : query.trim().length < MIN_QUERY_LENGTH ? (
+          <span className="text-gray-500">
+            Type at least {MIN_QUERY_LENGTH} characters
+          </span>
+        ) : suggestions.length === 0 ? (
+          <span className="text-red-600">No matching addresses</span>
+        ) : (
+          <span className="text-gray-500">
+            Pick one of {suggestions.length} matches from the list or map
+          </span>
+        )}
+      </div>
+
+      {candidates.length > 0 && (
+        <div className="mt-2">
+          <AddressPreviewMap
+            candidates={candidates}
+            selectedIndex={selectedIndex === -1 ? null : selectedIndex}
+            onSelect={(index) => {
+              const candidate = candidates[index];
+              if (candidate) pick(candidate);
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SuggestionLabel({ suggestion }: { suggestion: AddressSuggestion }) {
+  return (
+    <>
+      <span className="text-gray-900">{suggestion.formattedAddress}</span>
+      {!suggestion.inRegion && (
+        <span className="ml-2 rounded bg-amber-100 px-1 text-xs text-amber-800">
+          Outside region
+        </span>
+      )}
+      {suggestion.partialMatch && (
+        <span className="ml-2 rounded bg-gray-100 px-1 text-xs text-gray-600">
+          Partial match
+        </span>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { escapeHtml } from "~/lib/html";
+
+interface PreviewLocation {
+  formattedAddress: string;
+  lat: number;
+  lng: number;
+}
+
+interface AddressPreviewMapProps {
+  candidates: PreviewLocation[];
+  // Index into candidates, or null while nothing is picked
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+}
+
+const candidateIcon = (selected: boolean) =>
+  L.divIcon({
+    html: `<div style="background-color: ${selected ? "#2563EB" : "#9CA3AF"}; width: 16px; height: 16px; border-radius: 50%; border: 3px solid white; box-shadow: 0 2px 6px rgba(0,0,0,0.3);"></div>`,
+    className: "custom-marker",
+    iconSize: [22, 22],
+    iconAnchor: [11, 11],
+  });
+
+/** A small map of every address candidate, so the right one can be picked before saving */
+export default function AddressPreviewMap({
+  candidates,
+  selectedIndex,
+  onSelect,
+}: AddressPreviewMapProps) {
+  const mapRef = useRef<L.Map | null>(null);
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const markersRef = useRef<L.Marker[]>([]);
+  // Markers call the latest handler without being redrawn for every new one
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  useEffect(() => {
+    if (!mapContainerRef.current || mapRef.current) return;
+
+    const map = L.map(mapContainerRef.current);
+    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+      attribution:
+        '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+      maxZoom: 19,
+    }).addTo(map);
+
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    markersRef.current.forEach((marker) => map.removeLayer(marker));
+    markersRef.current = candidates.map((candidate, index) =>
+      L.marker([candidate.lat, candidate.lng], {
+        icon: candidateIcon(index === selectedIndex),
+        zIndexOffset: index === selectedIndex ? 1000 : 0,
+      })
+        .addTo(map)
+        .bindTooltip(escapeHtml(candidate.formattedAddress))
+        .on("click", () => onSelectRef.current(index)),
+    );
+
+    // Zoom in on the pick, otherwise show every candidate
+    const selected = selectedIndex === null ? null : candidates[selectedIndex];
+    if (selected) {
+      map.setView([selected.lat, selected.lng], 15);
+    } else if (candidates.length > 0) {
+      map.fitBounds(
+        L.latLngBounds(candidates.map(({ lat, lng }) => [lat, lng])),
+        { padding: [24, 24], maxZoom: 15 },
+      );
+    }
+  }, [candidates, selectedIndex]);
+
+  return (
+    <div
+      ref={mapContainerRef}
+      className="h-48 w-full overflow-hidden rounded-md border border-gray-300"
+    />
+  );
+}
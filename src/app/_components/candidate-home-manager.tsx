@@ -0,0 +1,241 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "~/trpc/react";
+
+export interface CandidateHome {
+  id: string;
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+}
+
+export interface CandidateScore {
+  /** Value shown on the map for this candidate, formatted per trip */
+  label: string;
+  /** 1 is the best of all scored origins */
+  rank: number;
+  total: number;
+}
+
+interface CandidateHomeManagerProps {
+  candidates: CandidateHome[];
+  onCandidatesChange: (candidates: CandidateHome[]) => void;
+  // Geocoding prefers matches in this region
+  regionId: string;
+  // Scores for the current map view, by candidate id
+  scores: Record<string, CandidateScore>;
+}
+
+export function CandidateHomeManager({
+  candidates,
+  onCandidatesChange,
+  regionId,
+  scores,
+}: CandidateHomeManagerProps) {
+  const [isAddingNew, setIsAddingNew] = useState(false);
+  const [isGeocoding, setIsGeocoding] = useState(false);
+  const [geocodingError, setGeocodingError] = useState<string | null>(null);
+  const [newCandidate, setNewCandidate] = useState({ name: "", address: "" });
+
+  const utils = api.useUtils();
+
+  const resetForm = () => {
+    setIsAddingNew(false);
+    setNewCandidate({ name: "", address: "" });
+    setGeocodingError(null);
+  };
+
+  const addCandidate = async () => {
+    if (!newCandidate.address) return;
+
+    setIsGeocoding(true);
+    setGeocodingError(null);
+
+    try {
+      const geocodeResult = await utils.traffic.geocodeAddress.fetch({
+        regionId,
+        address: newCandidate.address,
+      });
+
+      const candidate: CandidateHome = {
+        id: `candidate-${Date.now()}`,
+        // The street address is a fine name for an apartment
+        name:
+          newCandidate.name ||
+          (geocodeResult.formatted_address.split(",")[0] ??
+            newCandidate.address),
+        address: geocodeResult.formatted_address,
+        lat: geocodeResult.lat,
+        lng: geocodeResult.lng,
+      };
+
+      onCandidatesChange([...candidates, candidate]);
+      resetForm();
+    } catch (error) {
+      console.error("Failed to add candidate home:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to geocode address";
+      setGeocodingError(errorMessage);
+    } finally {
+      setIsGeocoding(false);
+    }
+  };
+
+  const renameCandidate = (id: string, name: string) => {
+    onCandidatesChange(
+      candidates.map((candidate) =>
+        candidate.id === id ? { ...candidate, name } : candidate,
+      ),
+    );
+  };
+
+  const removeCandidate = (id: string) => {
+    onCandidatesChange(candidates.filter((candidate) => candidate.id !== id));
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-7xl flex-col rounded-lg bg-white p-6 shadow-lg">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Candidate Homes</h2>
+          <p className="mt-1 text-gray-600">
+            Score the apartments on your shortlist against the neighborhood grid
+          </p>
+        </div>
+        <button
+          onClick={() => setIsAddingNew(true)}
+          className="rounded-lg bg-amber-500 px-4 py-2 text-white transition-colors hover:bg-amber-600"
+        >
+          Add Candidate
+        </button>
+      </div>
+
+      {/* Existing Candidates */}
+      {candidates.length > 0 && (
+        <div className="mb-6 space-y-2">
+          {candidates.map((candidate) => {
+            const score = scores[candidate.id];
+            return (
+              <div
+                key={candidate.id}
+                className="flex items-center justify-between gap-4 rounded-lg border border-amber-200 bg-amber-50 p-4"
+              >
+                <div className="flex flex-1 flex-col gap-1 md:flex-row md:items-center md:gap-4">
+                  <input
+                    type="text"
+                    value={candidate.name}
+                    onChange={(e) =>
+                      renameCandidate(candidate.id, e.target.value)
+                    }
+                    className="rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-amber-500 focus:outline-none md:w-64"
+                  />
+                  <span className="flex-1 text-sm text-gray-600">
+                    {candidate.address}
+                  </span>
+                </div>
+
+                <div className="text-right text-sm">
+                  {score ? (
+                    <>
+                      <div className="font-bold text-gray-900">
+                        {score.label}
+                      </div>
+                      <div className="text-gray-500">
+                        #{score.rank} of {score.total} origins
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-gray-400">Load data to score</div>
+                  )}
+                </div>
+
+                <button
+                  onClick={() => removeCandidate(candidate.id)}
+                  className="rounded-lg p-2 text-red-600 transition-colors hover:bg-red-100 hover:text-red-800"
+                  title="Remove candidate"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Add New Candidate Form */}
+      {isAddingNew && (
+        <div className="rounded-lg border-2 border-dashed border-amber-300 bg-amber-50 p-4">
+          {geocodingError && (
+            <div className="mb-4 rounded-md border border-red-300 bg-red-100 p-3">
+              <div className="text-sm text-red-700">
+                <strong>Geocoding Error:</strong> {geocodingError}
+              </div>
+            </div>
+          )}
+
+          <div className="mb-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">
+                Name (optional)
+              </label>
+              <input
+                type="text"
+                value={newCandidate.name}
+                onChange={(e) =>
+                  setNewCandidate({ ...newCandidate, name: e.target.value })
+                }
+                className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-amber-500 focus:outline-none"
+                placeholder="2BR on Valencia, etc."
+                disabled={isGeocoding}
+              />
+            </div>
+
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">
+                Address
+              </label>
+              <input
+                type="text"
+                value={newCandidate.address}
+                onChange={(e) =>
+                  setNewCandidate({ ...newCandidate, address: e.target.value })
+                }
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") void addCandidate();
+                }}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-amber-500 focus:outline-none"
+                placeholder="Full address..."
+                disabled={isGeocoding}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => void addCandidate()}
+              disabled={!newCandidate.address || isGeocoding}
+              className="rounded-lg bg-amber-500 px-4 py-2 text-white transition-colors hover:bg-amber-600 disabled:cursor-not-allowed disabled:bg-gray-400"
+            >
+              {isGeocoding ? "Finding location..." : "Add Candidate"}
+            </button>
+            <button
+              onClick={resetForm}
+              disabled={isGeocoding}
+              className="rounded-lg bg-gray-300 px-4 py-2 text-gray-700 transition-colors hover:bg-gray-400 disabled:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {candidates.length === 0 && !isAddingNew && (
+        <p className="text-sm text-gray-500">
+          No candidate homes yet. Add an address to see how it compares.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { isTrafficAware } from "~/lib/scoring";
+import { type Destination } from "./destination-manager";
+
+export type FuelType = "gas" | "electric";
+
+export interface CostSettings {
+  fuelType: FuelType;
+  // Dollars per gallon, or per kWh for electric vehicles
+  energyPrice: number;
+  // Miles per gallon, or per kWh for electric vehicles
+  efficiency: number;
+  // Add the estimated toll of each driving trip
+  includeTolls: boolean;
+  // Dollars per hour spent travelling, in any travel mode
+  valueOfTimePerHour: number;
+  // Dollars per driving trip, by destination id
+  parking: Record<string, number>;
+}
+
+const FUEL_DEFAULTS: Record<
+  FuelType,
+  Pick<CostSettings, "energyPrice" | "efficiency">
+> = {
+  gas: { energyPrice: 5, efficiency: 28 },
+  electric: { energyPrice: 0.35, efficiency: 3.5 },
+};
+
+export const DEFAULT_COST_SETTINGS: CostSettings = {
+  fuelType: "gas",
+  ...FUEL_DEFAULTS.gas,
+  includeTolls: true,
+  valueOfTimePerHour: 25,
+  parking: {},
+};
+
+const METERS_PER_MILE = 1609.344;
+export const WEEKS_PER_YEAR = 52;
+
+/**
+ * Dollar cost of one trip. Every trip costs the traveller's time; driving trips also pay for
+ * energy by distance, the estimated toll (unknown tolls count as none) and parking.
+ */
+export const tripCost = (
+  trip: { duration: number; distance: number; tollCost?: number },
+  destination: Pick<Destination, "id" | "travelMode">,
+  settings: CostSettings,
+) => {
+  const timeCost = (trip.duration / 3600) * settings.valueOfTimePerHour;
+  if (!isTrafficAware(destination.travelMode)) return timeCost;
+
+  const energyCost =
+    (trip.distance / METERS_PER_MILE / settings.efficiency) *
+    settings.energyPrice;
+  const tollCost = settings.includeTolls ? (trip.tollCost ?? 0) : 0;
+  return (
+    timeCost + energyCost + tollCost + (settings.parking[destination.id] ?? 0)
+  );
+};
+
+export const formatDollars = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: amount < 100 ? 2 : 0,
+  }).format(amount);
+
+interface CostSettingsManagerProps {
+  settings: CostSettings;
+  onSettingsChange: (settings: CostSettings) => void;
+  // Parking is set for each driving destination
+  destinations: Destination[];
+}
+
+export function CostSettingsManager({
+  settings,
+  onSettingsChange,
+  destinations,
+}: CostSettingsManagerProps) {
+  const update = (updates: Partial<CostSettings>) =>
+    onSettingsChange({ ...settings, ...updates });
+
+  // Empty or invalid inputs count as zero
+  const parseAmount = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+  const drivingDestinations = destinations.filter((destination) =>
+    isTrafficAware(destination.travelMode),
+  );
+  const isElectric = settings.fuelType === "electric";
+
+  return (
+    <div className="mx-auto flex w-full max-w-7xl flex-col rounded-lg bg-white p-6 shadow-lg">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Commute Costs</h2>
+        <p className="mt-1 text-gray-600">
+          Turn travel times and distances into dollars, weighted by your weekly
+          trips
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            Vehicle
+          </label>
+          <select
+            value={settings.fuelType}
+            onChange={(e) => {
+              const fuelType = e.target.value as FuelType;
+              update({ fuelType, ...FUEL_DEFAULTS[fuelType] });
+            }}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+          >
+            <option value="gas">Gas</option>
+            <option value="electric">Electric</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            {isElectric ? "Electricity ($/kWh)" : "Fuel ($/gallon)"}
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={settings.energyPrice}
+            onChange={(e) =>
+              update({ energyPrice: parseAmount(e.target.value) })
+            }
+            className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+          />
+        </div>
+
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            Efficiency ({isElectric ? "mi/kWh" : "mpg"})
+          </label>
+          <input
+            type="number"
+            min="0.1"
+            step="0.1"
+            value={settings.efficiency}
+            onChange={(e) =>
+              update({
+                // Zero efficiency would make every mile infinitely expensive
+                efficiency: Math.max(0.1, parseAmount(e.target.value)),
+              })
+            }
+            className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+          />
+          <div className="mt-1 text-xs text-gray-500">
+            {formatDollars(settings.energyPrice / settings.efficiency)} per mile
+          </div>
+        </div>
+
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            Value of Time ($/hour)
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={settings.valueOfTimePerHour}
+            onChange={(e) =>
+              update({ valueOfTimePerHour: parseAmount(e.target.value) })
+            }
+            className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+          />
+        </div>
+      </div>
+
+      <label className="mt-4 flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={settings.includeTolls}
+          onChange={(e) => update({ includeTolls: e.target.checked })}
+        />
+        Include estimated tolls
+      </label>
+
+      {drivingDestinations.length > 0 && (
+        <div className="mt-4">
+          <h3 className="mb-2 text-sm font-medium text-gray-700">
+            Parking per trip
+          </h3>
+          <div className="grid grid-cols-1 gap-2 md:grid-cols-3">
+            {drivingDestinations.map((destination) => (
+              <label
+                key={destination.id}
+                className="flex items-center justify-between gap-2 rounded-md border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm"
+              >
+                <span className="text-gray-700">{destination.name}</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={settings.parking[destination.id] ?? 0}
+                  onChange={(e) =>
+                    update({
+                      parking: {
+                        ...settings.parking,
+                        [destination.id]: parseAmount(e.target.value),
+                      },
+                    })
+                  }
+                  className="w-24 rounded-md border border-gray-300 px-2 py-1 focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
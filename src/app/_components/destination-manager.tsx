@@ -1,7 +1,31 @@
 "use client";
 
-import { useState } from "react";
-import { api } from "~/trpc/react";
+import { useEffect, useRef, useState } from "react";
+import { isTrafficAware } from "~/lib/scoring";
+import { AddressPicker, type AddressSuggestion } from "./address-picker";
+import { WEEKDAYS, type DepartureSpec } from "./time-period-manager";
+
+export type TravelMode = "DRIVE" | "TRANSIT" | "BICYCLE" | "WALK" | "TWO_WHEELER";
+
+export const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  DRIVE: "Drive",
+  TRANSIT: "Transit",
+  BICYCLE: "Bike",
+  WALK: "Walk",
+  TWO_WHEELER: "Motorcycle / Scooter",
+};
+
+export interface RouteModifiers {
+  avoidTolls?: boolean;
+  avoidHighways?: boolean;
+  avoidFerries?: boolean;
+}
+
+export const ROUTE_MODIFIER_LABELS: Record<keyof RouteModifiers, string> = {
+  avoidTolls: "Avoid tolls",
+  avoidHighways: "Avoid highways",
+  avoidFerries: "Avoid ferries",
+};
 
 export interface Destination {
   id: string;
@@ -11,132 +35,211 @@ export interface Destination {
   lng: number;
   rushTrips: number;
   offpeakTrips: number;
+  travelMode: TravelMode;
+  // When set, the way back is timed too, leaving the destination at this time
+  returnDeparture?: DepartureSpec;
+  // Unset modifiers fall back to the map's route options
+  routeModifiers?: RouteModifiers;
+}
+
+const DEFAULT_RETURN_DEPARTURE: DepartureSpec = { weekday: 2, time: "18:00" };
+
+interface ReturnTripEditorProps {
+  returnDeparture?: DepartureSpec;
+  onChange: (returnDeparture: DepartureSpec | undefined) => void;
+  disabled?: boolean;
+}
+
+function ReturnTripEditor({
+  returnDeparture,
+  onChange,
+  disabled,
+}: ReturnTripEditorProps) {
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={!!returnDeparture}
+          onChange={(e) =>
+            onChange(e.target.checked ? DEFAULT_RETURN_DEPARTURE : undefined)
+          }
+          disabled={disabled}
+        />
+        Return trip
+      </label>
+      {returnDeparture && (
+        <>
+          <span className="text-gray-500">leaving</span>
+          <select
+            value={returnDeparture.weekday}
+            onChange={(e) =>
+              onChange({ ...returnDeparture, weekday: parseInt(e.target.value) })
+            }
+            className="rounded-md border border-gray-300 px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            disabled={disabled}
+          >
+            {WEEKDAYS.map((day, index) => (
+              <option key={day} value={index}>
+                {day}
+              </option>
+            ))}
+          </select>
+          <input
+            type="time"
+            value={returnDeparture.time}
+            onChange={(e) =>
+              e.target.value &&
+              onChange({ ...returnDeparture, time: e.target.value })
+            }
+            className="rounded-md border border-gray-300 px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            disabled={disabled}
+          />
+          <span className="text-xs text-gray-500">
+            (rush hour trips; off-peak trips come back off-peak)
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface RouteModifierEditorProps {
+  routeModifiers?: RouteModifiers;
+  onChange: (routeModifiers: RouteModifiers) => void;
+  disabled?: boolean;
+}
+
+/** Checkboxes for the route modifiers; unchecking clears the modifier rather than setting false */
+export function RouteModifierEditor({
+  routeModifiers = {},
+  onChange,
+  disabled,
+}: RouteModifierEditorProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+      {Object.entries(ROUTE_MODIFIER_LABELS).map(([key, label]) => (
+        <label key={key} className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={!!routeModifiers[key as keyof RouteModifiers]}
+            onChange={(e) =>
+              onChange({
+                ...routeModifiers,
+                [key]: e.target.checked || undefined,
+              })
+            }
+            disabled={disabled}
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/** A point picked on the map to add as a destination, with the address found there if any */
+export interface DroppedPin {
+  lat: number;
+  lng: number;
+  address: string | null;
+  inRegion: boolean;
 }
 
 interface DestinationManagerProps {
   destinations: Destination[];
   onDestinationsChange: (destinations: Destination[]) => void;
+  // Geocoding prefers matches in this region
+  regionId: string;
+  // Opens the add form at this point; cleared through onDroppedPinDone once added or cancelled
+  droppedPin?: DroppedPin | null;
+  onDroppedPinDone?: () => void;
 }
 
 export function DestinationManager({
   destinations,
   onDestinationsChange,
+  regionId,
+  droppedPin,
+  onDroppedPinDone,
 }: DestinationManagerProps) {
   const [isAddingNew, setIsAddingNew] = useState(false);
-  const [isGeocoding, setIsGeocoding] = useState(false);
-  const [geocodingError, setGeocodingError] = useState<string | null>(null);
   const [newDestination, setNewDestination] = useState<Partial<Destination>>({
     name: "",
     address: "",
     rushTrips: 1,
     offpeakTrips: 1,
+    travelMode: "DRIVE",
   });
-  
-  // Track editing state for existing destinations
-  const [editingDestination, setEditingDestination] = useState<{
+  // The candidate picked for the new destination's address
+  const [newLocation, setNewLocation] = useState<AddressSuggestion | null>(
+    null,
+  );
+
+  // An existing destination whose address is being changed
+  const [addressEdit, setAddressEdit] = useState<{
     id: string;
-    field: string;
-    value: string;
+    query: string;
+    selected: AddressSuggestion | null;
   } | null>(null);
 
-  // Create tRPC utils for geocoding
-  const utils = api.useUtils();
-
-  const startEditing = (id: string, field: string, currentValue: string) => {
-    setEditingDestination({ id, field, value: currentValue });
-  };
-
-  const updateEditingValue = (value: string) => {
-    if (editingDestination) {
-      setEditingDestination({ ...editingDestination, value });
-    }
-  };
-
-  const commitEdit = async () => {
-    if (!editingDestination) return;
-    
-    const { id, field, value } = editingDestination;
-    const destination = destinations.find(d => d.id === id);
-    
-    if (!destination) {
-      setEditingDestination(null);
-      return;
+  const addFormRef = useRef<HTMLDivElement>(null);
+
+  // A pin dropped on the map fills in the add form's location
+  useEffect(() => {
+    if (!droppedPin) return;
+
+    const { lat, lng, address, inRegion } = droppedPin;
+    const location: AddressSuggestion = {
+      formattedAddress: address ?? `${lat.toFixed(5)}, ${lng.toFixed(5)}`,
+      lat,
+      lng,
+      inRegion,
+      partialMatch: false,
+    };
+    setIsAddingNew(true);
+    setNewDestination((current) => ({
+      ...current,
+      address: location.formattedAddress,
+    }));
+    setNewLocation(location);
+  }, [droppedPin]);
+
+  // The map is further down the page, so bring the form into view once it's open
+  useEffect(() => {
+    if (droppedPin && isAddingNew) {
+      addFormRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
     }
+  }, [droppedPin, isAddingNew]);
 
-    // Only call updateDestination if the value actually changed
-    if (destination[field as keyof Destination] !== value) {
-      await updateDestination(id, { [field]: value } as Partial<Destination>);
-    }
-    
-    setEditingDestination(null);
+  const resetNewDestination = () => {
+    setIsAddingNew(false);
+    setNewDestination({ name: "", address: "", rushTrips: 1, offpeakTrips: 1, travelMode: "DRIVE" });
+    setNewLocation(null);
+    onDroppedPinDone?.();
   };
 
-  const cancelEdit = () => {
-    setEditingDestination(null);
-  };
-
-  const addDestination = async () => {
-    if (!newDestination.name || !newDestination.address) return;
-
-    setIsGeocoding(true);
-    setGeocodingError(null);
-
-    try {
-      // Geocode the address to get coordinates
-      const geocodeResult = await utils.traffic.geocodeAddress.fetch({
-        address: newDestination.address,
-      });
-
-      const destination: Destination = {
-        id: `dest-${Date.now()}`,
-        name: newDestination.name,
-        address: geocodeResult.formatted_address, // Use the formatted address from Google
-        lat: geocodeResult.lat,
-        lng: geocodeResult.lng,
-        rushTrips: newDestination.rushTrips ?? 1,
-        offpeakTrips: newDestination.offpeakTrips ?? 1,
-      };
-
-      onDestinationsChange([...destinations, destination]);
-      setNewDestination({ name: "", address: "", rushTrips: 1, offpeakTrips: 1 });
-      setIsAddingNew(false);
-    } catch (error) {
-      console.error("Geocoding error:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : "Failed to geocode address";
-      setGeocodingError(errorMessage);
-    } finally {
-      setIsGeocoding(false);
-    }
+  const addDestination = () => {
+    if (!newDestination.name || !newLocation) return;
+
+    const destination: Destination = {
+      id: `dest-${Date.now()}`,
+      name: newDestination.name,
+      address: newLocation.formattedAddress,
+      lat: newLocation.lat,
+      lng: newLocation.lng,
+      rushTrips: newDestination.rushTrips ?? 1,
+      offpeakTrips: newDestination.offpeakTrips ?? 1,
+      travelMode: newDestination.travelMode ?? "DRIVE",
+      returnDeparture: newDestination.returnDeparture,
+      routeModifiers: newDestination.routeModifiers,
+    };
+
+    onDestinationsChange([...destinations, destination]);
+    resetNewDestination();
   };
 
-  const updateDestination = async (
-    id: string,
-    updates: Partial<Destination>,
-  ) => {
-    // If the address is being updated, we need to geocode it
-    if (
-      updates.address &&
-      updates.address !== destinations.find((d) => d.id === id)?.address
-    ) {
-      try {
-        setIsGeocoding(true);
-        const geocodeResult = await utils.traffic.geocodeAddress.fetch({
-          address: updates.address,
-        });
-
-        updates.lat = geocodeResult.lat;
-        updates.lng = geocodeResult.lng;
-        updates.address = geocodeResult.formatted_address;
-      } catch (error) {
-        console.error("Geocoding error:", error);
-        // Don't update if geocoding fails
-        return;
-      } finally {
-        setIsGeocoding(false);
-      }
-    }
-
+  const updateDestination = (id: string, updates: Partial<Destination>) => {
     onDestinationsChange(
       destinations.map((dest) =>
         dest.id === id ? { ...dest, ...updates } : dest,
@@ -144,6 +247,14 @@ export function DestinationManager({
     );
   };
 
+  const saveAddressEdit = () => {
+    if (!addressEdit?.selected) return;
+
+    const { formattedAddress, lat, lng } = addressEdit.selected;
+    updateDestination(addressEdit.id, { address: formattedAddress, lat, lng });
+    setAddressEdit(null);
+  };
+
   const removeDestination = (id: string) => {
     onDestinationsChange(destinations.filter((dest) => dest.id !== id));
   };
@@ -184,7 +295,7 @@ export function DestinationManager({
             className="rounded-lg border border-gray-200 bg-gray-50 p-4"
           >
             <div className="flex items-start justify-between">
-              <div className="grid flex-1 grid-cols-1 gap-4 md:grid-cols-4">
+              <div className="grid flex-1 grid-cols-1 gap-4 md:grid-cols-5">
                 <div>
                   <label className="mb-1 block text-sm font-medium text-gray-700">
                     Name
@@ -206,28 +317,25 @@ export function DestinationManager({
                   <label className="mb-1 block text-sm font-medium text-gray-700">
                     Address
                   </label>
-                  <input
-                    type="text"
-                    value={
-                      editingDestination?.id === destination.id && editingDestination?.field === 'address'
-                        ? editingDestination.value
-                        : destination.address
-                    }
-                    onFocus={() => startEditing(destination.id, 'address', destination.address)}
-                    onChange={(e) => updateEditingValue(e.target.value)}
-                    onBlur={() => void commitEdit()}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter') {
-                        e.currentTarget.blur(); // This will trigger onBlur and commit
-                      } else if (e.key === 'Escape') {
-                        cancelEdit();
-                        e.currentTarget.blur();
-                      }
-                    }}
-                    className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
-                    placeholder="Full address..."
-                    disabled={isGeocoding}
-                  />
+                  <div className="flex items-start gap-2">
+                    <span className="flex-1 py-2 text-sm text-gray-900">
+                      {destination.address}
+                    </span>
+                    {addressEdit?.id !== destination.id && (
+                      <button
+                        onClick={() =>
+                          setAddressEdit({
+                            id: destination.id,
+                            query: destination.address,
+                            selected: null,
+                          })
+                        }
+                        className="mt-1 rounded-md px-2 py-1 text-sm text-blue-600 hover:bg-blue-100"
+                      >
+                        Change
+                      </button>
+                    )}
+                  </div>
                   {destination.lat !== 0 && destination.lng !== 0 && (
                     <div className="mt-1 text-xs text-green-600">
                       ✓ Located at {destination.lat.toFixed(4)},{" "}
@@ -271,6 +379,27 @@ export function DestinationManager({
                     className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
                   />
                 </div>
+
+                <div>
+                  <label className="mb-1 block text-sm font-medium text-gray-700">
+                    Travel Mode
+                  </label>
+                  <select
+                    value={destination.travelMode}
+                    onChange={(e) =>
+                      updateDestination(destination.id, {
+                        travelMode: e.target.value as TravelMode,
+                      })
+                    }
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  >
+                    {Object.entries(TRAVEL_MODE_LABELS).map(([mode, label]) => (
+                      <option key={mode} value={mode}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <button
@@ -293,25 +422,77 @@ export function DestinationManager({
                 </svg>
               </button>
             </div>
+
+            {addressEdit?.id === destination.id && (
+              <div className="mt-3 rounded-md border border-blue-200 bg-white p-3">
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  New address
+                </label>
+                <AddressPicker
+                  regionId={regionId}
+                  query={addressEdit.query}
+                  onQueryChange={(query) =>
+                    setAddressEdit({ ...addressEdit, query, selected: null })
+                  }
+                  selected={addressEdit.selected}
+                  onSelect={(selected) =>
+                    setAddressEdit({
+                      ...addressEdit,
+                      query: selected.formattedAddress,
+                      selected,
+                    })
+                  }
+                  autoFocus
+                />
+                <div className="mt-3 flex gap-2">
+                  <button
+                    onClick={saveAddressEdit}
+                    disabled={!addressEdit.selected}
+                    className="rounded-lg bg-blue-500 px-3 py-1 text-sm text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:bg-gray-400"
+                  >
+                    Save Address
+                  </button>
+                  <button
+                    onClick={() => setAddressEdit(null)}
+                    className="rounded-lg bg-gray-300 px-3 py-1 text-sm text-gray-700 transition-colors hover:bg-gray-400"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <ReturnTripEditor
+              returnDeparture={destination.returnDeparture}
+              onChange={(returnDeparture) =>
+                updateDestination(destination.id, { returnDeparture })
+              }
+            />
+
+            {isTrafficAware(destination.travelMode) && (
+              <div className="mt-3">
+                <RouteModifierEditor
+                  routeModifiers={destination.routeModifiers}
+                  onChange={(routeModifiers) =>
+                    updateDestination(destination.id, { routeModifiers })
+                  }
+                />
+              </div>
+            )}
           </div>
         ))}
       </div>
 
       {/* Add New Destination Form */}
       {isAddingNew && (
-        <div className="rounded-lg border-2 border-dashed border-blue-300 bg-blue-50 p-4">
+        <div
+          ref={addFormRef}
+          className="rounded-lg border-2 border-dashed border-blue-300 bg-blue-50 p-4"
+        >
           <h3 className="mb-4 text-lg font-medium text-gray-900">
             Add New Destination
           </h3>
 
-          {geocodingError && (
-            <div className="mb-4 rounded-md border border-red-300 bg-red-100 p-3">
-              <div className="text-sm text-red-700">
-                <strong>Geocoding Error:</strong> {geocodingError}
-              </div>
-            </div>
-          )}
-
           <div className="mb-4 grid grid-cols-1 gap-4 md:grid-cols-4">
             <div>
               <label className="mb-1 block text-sm font-medium text-gray-700">
@@ -325,26 +506,6 @@ export function DestinationManager({
                 }
                 className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
                 placeholder="Office, Client, etc."
-                disabled={isGeocoding}
-              />
-            </div>
-
-            <div>
-              <label className="mb-1 block text-sm font-medium text-gray-700">
-                Address
-              </label>
-              <input
-                type="text"
-                value={newDestination.address ?? ""}
-                onChange={(e) =>
-                  setNewDestination({
-                    ...newDestination,
-                    address: e.target.value,
-                  })
-                }
-                className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
-                placeholder="Full address..."
-                disabled={isGeocoding}
               />
             </div>
 
@@ -365,7 +526,6 @@ export function DestinationManager({
                   });
                 }}
                 className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
-                disabled={isGeocoding}
               />
             </div>
 
@@ -386,28 +546,82 @@ export function DestinationManager({
                   });
                 }}
                 className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
-                disabled={isGeocoding}
               />
             </div>
+
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">
+                Travel Mode
+              </label>
+              <select
+                value={newDestination.travelMode ?? "DRIVE"}
+                onChange={(e) =>
+                  setNewDestination({
+                    ...newDestination,
+                    travelMode: e.target.value as TravelMode,
+                  })
+                }
+                className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {Object.entries(TRAVEL_MODE_LABELS).map(([mode, label]) => (
+                  <option key={mode} value={mode}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">
+              Address
+            </label>
+            <AddressPicker
+              regionId={regionId}
+              query={newDestination.address ?? ""}
+              onQueryChange={(address) => {
+                setNewDestination({ ...newDestination, address });
+                setNewLocation(null);
+              }}
+              selected={newLocation}
+              onSelect={(location) => {
+                setNewDestination({
+                  ...newDestination,
+                  address: location.formattedAddress,
+                });
+                setNewLocation(location);
+              }}
+            />
           </div>
 
-          <div className="flex gap-2">
+          <ReturnTripEditor
+            returnDeparture={newDestination.returnDeparture}
+            onChange={(returnDeparture) =>
+              setNewDestination({ ...newDestination, returnDeparture })
+            }
+          />
+
+          {isTrafficAware(newDestination.travelMode ?? "DRIVE") && (
+            <div className="mt-3">
+              <RouteModifierEditor
+                routeModifiers={newDestination.routeModifiers}
+                onChange={(routeModifiers) =>
+                  setNewDestination({ ...newDestination, routeModifiers })
+                }
+              />
+            </div>
+          )}
+
+          <div className="mt-4 flex gap-2">
             <button
-              onClick={() => void addDestination()}
-              disabled={
-                !newDestination.name || !newDestination.address || isGeocoding
-              }
+              onClick={addDestination}
+              disabled={!newDestination.name || !newLocation}
               className="rounded-lg bg-blue-500 px-4 py-2 text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:bg-gray-400"
             >
               Add Destination
             </button>
             <button
-              onClick={() => {
-                setIsAddingNew(false);
-                setNewDestination({ name: "", address: "", rushTrips: 1, offpeakTrips: 1 });
-                setGeocodingError(null);
-              }}
-              disabled={isGeocoding}
+              onClick={resetNewDestination}
               className="rounded-lg bg-gray-300 px-4 py-2 text-gray-700 transition-colors hover:bg-gray-400 disabled:bg-gray-200"
             >
               Cancel
@@ -427,19 +641,6 @@ export function DestinationManager({
           </button>
         </div>
       )}
-
-      {/* {isGeocoding && ( */}
-        <div className={`fixed inset-0 z-50 flex items-center justify-center transition-all duration-300 ${isGeocoding ? "backdrop-blur-md visible" : "invisible"}`}>
-          <div className="rounded-lg bg-white p-6 shadow-lg">
-            <div className="flex items-center space-x-3">
-              <div className="h-5 w-5 animate-spin rounded-full border-b-2 border-blue-500"></div>
-              <span>Finding location...</span>
-            </div>
-          </div>
-        </div>
-      {/* )} */}
-
-
     </div>
   );
 }
@@ -0,0 +1,62 @@
+"use client";
+
+import { describeRouteError, type DestinationFailure } from "~/lib/failures";
+
+export interface PeriodFailure extends DestinationFailure {
+  periodId: string;
+  periodName: string;
+}
+
+interface FailuresPanelProps {
+  failures: PeriodFailure[];
+}
+
+export function FailuresPanel({ failures }: FailuresPanelProps) {
+  if (failures.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-red-200 bg-white p-4 shadow-lg">
+      <h3 className="text-lg font-semibold text-red-700">
+        Missing travel times
+      </h3>
+      <p className="mb-3 text-sm text-gray-600">
+        The router couldn&apos;t answer every trip. Origins without data for the
+        current view are drawn as grey markers.
+      </p>
+      <ul className="space-y-2">
+        {failures.map((failure) => (
+          <li
+            key={`${failure.periodId}-${failure.destinationId}`}
+            className="rounded-md bg-red-50 px-3 py-2 text-sm"
+          >
+            <div className="font-medium text-gray-900">
+              {failure.destinationName}
+              <span className="font-normal text-gray-500">
+                {" "}
+                · {failure.periodName}
+              </span>
+              <span className="ml-2 text-red-700">
+                {failure.failedOrigins === failure.totalOrigins
+                  ? "Every origin failed"
+                  : `${failure.failedOrigins} of ${failure.totalOrigins} origins failed`}
+              </span>
+            </div>
+            <ul className="mt-1 text-xs text-gray-700">
+              {failure.reasons.map(({ error, count }) => (
+                <li key={describeRouteError(error)}>
+                  {describeRouteError(error)}
+                  {failure.reasons.length > 1 && (
+                    <span className="text-gray-500">
+                      {" "}
+                      ({count} {count === 1 ? "origin" : "origins"})
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+export interface LoadProgress {
+  // Destination and time period pairs in this load
+  total: number;
+  // Pairs finished so far, including failed ones
+  completed: number;
+  failed: number;
+  startedAt: number;
+  // Set once the load has ended
+  finishedAt?: number;
+}
+
+const formatEta = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+interface LoadProgressBarProps {
+  progress: LoadProgress;
+}
+
+export function LoadProgressBar({ progress }: LoadProgressBarProps) {
+  const { total, completed, failed, startedAt, finishedAt } = progress;
+  const succeeded = completed - failed;
+  const percent = (count: number) => (total > 0 ? (count / total) * 100 : 0);
+
+  // Assumes the remaining pairs take as long as the ones so far
+  const elapsed = (finishedAt ?? Date.now()) - startedAt;
+  const eta =
+    completed > 0 && completed < total
+      ? (elapsed / completed) * (total - completed)
+      : null;
+
+  return (
+    <div className="rounded-lg bg-white p-4 shadow-lg">
+      <div className="mb-2 flex items-center justify-between text-sm text-gray-700">
+        <span>
+          {completed} of {total} loaded
+          {failed > 0 && (
+            <span className="ml-2 text-red-600">{failed} failed</span>
+          )}
+        </span>
+        <span className="text-gray-500">
+          {finishedAt === undefined
+            ? eta !== null
+              ? `About ${formatEta(eta)} left`
+              : "Starting..."
+            : `Done in ${formatEta(elapsed)}`}
+        </span>
+      </div>
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-gray-200">
+        <div
+          className="bg-violet-600 transition-all"
+          style={{ width: `${percent(succeeded)}%` }}
+        />
+        <div
+          className="bg-red-500 transition-all"
+          style={{ width: `${percent(failed)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import { api, type RouterInputs, type RouterOutputs } from "~/trpc/react";
+
+export type ScenarioState = RouterInputs["scenario"]["create"]["state"];
+export type SavedScenarioState = RouterOutputs["scenario"]["get"]["state"];
+
+interface ScenarioPickerProps {
+  // The map's current setup, read when saving
+  getState: () => ScenarioState;
+  onLoad: (state: SavedScenarioState) => void;
+}
+
+/** Save the current setup under a name, and switch between saved ones */
+export function ScenarioPicker({ getState, onLoad }: ScenarioPickerProps) {
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const { data: scenarios } = api.scenario.list.useQuery();
+
+  const onError = (mutationError: { message: string }) =>
+    setError(mutationError.message);
+  const refreshList = () => utils.scenario.list.invalidate();
+
+  const create = api.scenario.create.useMutation({ onError });
+  const update = api.scenario.update.useMutation({ onError });
+  const duplicate = api.scenario.duplicate.useMutation({ onError });
+  const remove = api.scenario.delete.useMutation({ onError });
+  const isBusy =
+    create.isPending ||
+    update.isPending ||
+    duplicate.isPending ||
+    remove.isPending;
+
+  const selectScenario = async (id: string) => {
+    setError(null);
+    if (!id) {
+      setCurrentId(null);
+      setName("");
+      return;
+    }
+
+    try {
+      const scenario = await utils.scenario.get.fetch({ id });
+      setCurrentId(scenario.id);
+      setName(scenario.name);
+      onLoad(scenario.state);
+    } catch (fetchError) {
+      console.error("Error loading scenario:", fetchError);
+      setError(
+        fetchError instanceof Error
+          ? fetchError.message
+          : "Failed to load scenario",
+      );
+    }
+  };
+
+  const saveScenario = async () => {
+    setError(null);
+    const scenario = currentId
+      ? await update.mutateAsync({ id: currentId, name, state: getState() })
+      : await create.mutateAsync({ name, state: getState() });
+    setCurrentId(scenario.id);
+    setName(scenario.name);
+    await refreshList();
+  };
+
+  const saveAsNew = async () => {
+    setError(null);
+    const scenario = await create.mutateAsync({ name, state: getState() });
+    setCurrentId(scenario.id);
+    setName(scenario.name);
+    await refreshList();
+  };
+
+  // The copy is saved as the scenario was last saved, not with unsaved changes
+  const duplicateScenario = async () => {
+    if (!currentId) return;
+    setError(null);
+    const scenario = await duplicate.mutateAsync({ id: currentId });
+    setCurrentId(scenario.id);
+    setName(scenario.name);
+    onLoad(scenario.state);
+    await refreshList();
+  };
+
+  const deleteScenario = async () => {
+    if (!currentId || !confirm(`Delete the scenario "${name}"?`)) return;
+    setError(null);
+    await remove.mutateAsync({ id: currentId });
+    setCurrentId(null);
+    setName("");
+    await refreshList();
+  };
+
+  // Mutation errors are shown through onError
+  const run = (action: () => Promise<void>) => () => {
+    action().catch((actionError) =>
+      console.error("Scenario error:", actionError),
+    );
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-7xl flex-col rounded-lg bg-white p-6 shadow-lg">
+      <h2 className="text-2xl font-bold text-gray-900">Scenarios</h2>
+      <p className="mt-1 mb-4 text-gray-600">
+        Save destinations, trip counts, view settings and loaded travel times,
+        and come back to them later
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-300 bg-red-100 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            Scenario
+          </label>
+          <select
+            value={currentId ?? ""}
+            onChange={(e) => void selectScenario(e.target.value)}
+            disabled={isBusy}
+            className="rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          >
+            <option value="">Unsaved scenario</option>
+            {scenarios?.map((scenario) => (
+              <option key={scenario.id} value={scenario.id}>
+                {scenario.name} ({scenario.destinationCount}{" "}
+                {scenario.destinationCount === 1
+                  ? "destination"
+                  : "destinations"}
+                {scenario.hasTravelData ? ", travel times saved" : ""})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            Name
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Scenario name"
+            disabled={isBusy}
+            className="rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+        </div>
+
+        <button
+          onClick={run(saveScenario)}
+          disabled={isBusy || !name.trim()}
+          className="rounded-lg bg-blue-500 px-4 py-2 text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:bg-gray-400"
+        >
+          Save
+        </button>
+        {currentId && (
+          <>
+            <button
+              onClick={run(saveAsNew)}
+              disabled={isBusy || !name.trim()}
+              className="rounded-lg bg-gray-300 px-4 py-2 text-gray-700 transition-colors hover:bg-gray-400 disabled:bg-gray-200"
+            >
+              Save as New
+            </button>
+            <button
+              onClick={run(duplicateScenario)}
+              disabled={isBusy}
+              className="rounded-lg bg-gray-300 px-4 py-2 text-gray-700 transition-colors hover:bg-gray-400 disabled:bg-gray-200"
+            >
+              Duplicate
+            </button>
+            <button
+              onClick={run(deleteScenario)}
+              disabled={isBusy}
+              className="rounded-lg px-4 py-2 text-red-600 transition-colors hover:bg-red-100 hover:text-red-800"
+            >
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
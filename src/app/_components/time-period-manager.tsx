@@ -0,0 +1,232 @@
+"use client";
+
+export type PeriodKind = "rush" | "offpeak";
+
+export interface DepartureSpec {
+  weekday: number; // 0 = Sunday
+  time: string; // "HH:MM", local time
+  date?: string; // "YYYY-MM-DD", overrides the weekday
+}
+
+export interface TimePeriod {
+  id: string;
+  name: string;
+  // Which trip count from each destination (rush or off-peak) applies to this period
+  kind: PeriodKind;
+  departure: DepartureSpec;
+}
+
+export const DEFAULT_TIME_PERIODS: TimePeriod[] = [
+  {
+    id: "rush",
+    name: "Rush Hour",
+    kind: "rush",
+    departure: { weekday: 2, time: "17:00" },
+  },
+  {
+    id: "offpeak",
+    name: "Off-Peak",
+    kind: "offpeak",
+    departure: { weekday: 2, time: "03:00" },
+  },
+];
+
+export const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export const describeDeparture = (departure: DepartureSpec) =>
+  departure.date
+    ? `${departure.date} ${departure.time}`
+    : `${WEEKDAYS[departure.weekday]?.slice(0, 3)} ${departure.time}`;
+
+interface TimePeriodManagerProps {
+  timePeriods: TimePeriod[];
+  onTimePeriodsChange: (timePeriods: TimePeriod[]) => void;
+}
+
+export function TimePeriodManager({
+  timePeriods,
+  onTimePeriodsChange,
+}: TimePeriodManagerProps) {
+  const updatePeriod = (id: string, updates: Partial<TimePeriod>) => {
+    onTimePeriodsChange(
+      timePeriods.map((period) =>
+        period.id === id ? { ...period, ...updates } : period,
+      ),
+    );
+  };
+
+  const updateDeparture = (
+    period: TimePeriod,
+    updates: Partial<DepartureSpec>,
+  ) => {
+    const departure = { ...period.departure, ...updates };
+    // A pinned date decides the weekday
+    if (departure.date) {
+      departure.weekday = new Date(`${departure.date}T00:00`).getDay();
+    } else {
+      delete departure.date;
+    }
+    updatePeriod(period.id, { departure });
+  };
+
+  const addPeriod = () => {
+    onTimePeriodsChange([
+      ...timePeriods,
+      {
+        id: `period-${Date.now()}`,
+        name: "Morning Commute",
+        kind: "rush",
+        departure: { weekday: 1, time: "08:30" },
+      },
+    ]);
+  };
+
+  const removePeriod = (id: string) => {
+    onTimePeriodsChange(timePeriods.filter((period) => period.id !== id));
+  };
+
+  return (
+    <div className="rounded-lg bg-white p-6 shadow-lg">
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Time Periods</h2>
+          <p className="mt-1 text-gray-600">
+            When you usually leave. Rush periods use each destination&apos;s
+            rush hour trips, off-peak periods its off-peak trips
+          </p>
+        </div>
+        <button
+          onClick={addPeriod}
+          className="rounded-lg bg-blue-500 px-4 py-2 text-white transition-colors hover:bg-blue-600"
+        >
+          Add Time Period
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {timePeriods.map((period) => (
+          <div
+            key={period.id}
+            className="flex items-end gap-4 rounded-lg border border-gray-200 bg-gray-50 p-4"
+          >
+            <div className="grid flex-1 grid-cols-1 gap-4 md:grid-cols-5">
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={period.name}
+                  onChange={(e) =>
+                    updatePeriod(period.id, { name: e.target.value })
+                  }
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+              </div>
+
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  Counts As
+                </label>
+                <select
+                  value={period.kind}
+                  onChange={(e) =>
+                    updatePeriod(period.id, {
+                      kind: e.target.value as PeriodKind,
+                    })
+                  }
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                >
+                  <option value="rush">Rush Hour</option>
+                  <option value="offpeak">Off-Peak</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  Weekday
+                </label>
+                <select
+                  value={period.departure.weekday}
+                  onChange={(e) =>
+                    updateDeparture(period, {
+                      weekday: parseInt(e.target.value),
+                    })
+                  }
+                  disabled={!!period.departure.date}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:bg-gray-100"
+                >
+                  {WEEKDAYS.map((day, index) => (
+                    <option key={day} value={index}>
+                      {day}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  Departure Time
+                </label>
+                <input
+                  type="time"
+                  value={period.departure.time}
+                  onChange={(e) =>
+                    e.target.value &&
+                    updateDeparture(period, { time: e.target.value })
+                  }
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+              </div>
+
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  Specific Date (optional)
+                </label>
+                <input
+                  type="date"
+                  value={period.departure.date ?? ""}
+                  onChange={(e) =>
+                    updateDeparture(period, {
+                      date: e.target.value || undefined,
+                    })
+                  }
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+              </div>
+            </div>
+
+            <button
+              onClick={() => removePeriod(period.id)}
+              disabled={timePeriods.length <= 1}
+              className="rounded-lg p-2 text-red-600 transition-colors hover:bg-red-100 hover:text-red-800 disabled:cursor-not-allowed disabled:text-gray-300 disabled:hover:bg-transparent"
+              title="Remove time period"
+            >
+              <svg
+                className="h-5 w-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,74 @@
 "use client";
 
-import { useState } from "react";
-import { api } from "~/trpc/react";
+import { useEffect, useRef, useState } from "react";
+import { api, type RouterOutputs } from "~/trpc/react";
+import {
+  averagePeriods,
+  foldReturnLeg,
+  isTrafficAware,
+  trafficDelayScores,
+  weeklyTrips,
+  weightedScores,
+} from "~/lib/scoring";
+import {
+  describeRouteError,
+  requestFailure,
+  summarizeFailures,
+  type DestinationFailure,
+  type RouteError,
+} from "~/lib/failures";
+import {
+  formatKgCo2,
+  tripEmissionsKg,
+  VEHICLE_TYPE_LABELS,
+  type VehicleType,
+} from "~/lib/emissions";
+import {
+  decodeShareState,
+  encodeShareState,
+  type DisplayMode,
+  type GridShape,
+  type OriginMode,
+  type ShareState,
+  type ViewMode,
+  type Viewport,
+} from "~/lib/share-state";
 import dynamic from "next/dynamic";
-import { DestinationManager, type Destination } from "./destination-manager";
+import {
+  DestinationManager,
+  RouteModifierEditor,
+  type Destination,
+  type DroppedPin,
+  type RouteModifiers,
+} from "./destination-manager";
+import {
+  CandidateHomeManager,
+  type CandidateHome,
+  type CandidateScore,
+} from "./candidate-home-manager";
+import {
+  CostSettingsManager,
+  DEFAULT_COST_SETTINGS,
+  formatDollars,
+  tripCost,
+  WEEKS_PER_YEAR,
+  type CostSettings,
+} from "./cost-settings-manager";
+import { LoadProgressBar, type LoadProgress } from "./load-progress";
+import { FailuresPanel, type PeriodFailure } from "./failures-panel";
+import {
+  ScenarioPicker,
+  type SavedScenarioState,
+  type ScenarioState,
+} from "./scenario-picker";
+import {
+  DEFAULT_TIME_PERIODS,
+  describeDeparture,
+  TimePeriodManager,
+  type PeriodKind,
+  type TimePeriod,
+  WEEKDAYS,
+} from "./time-period-manager";
 
 // Dynamically import the map component to avoid SSR issues
 const TrafficMapDisplay = dynamic(() => import("./traffic-map-display"), {
@@ -13,9 +78,20 @@ const TrafficMapDisplay = dynamic(() => import("./traffic-map-display"), {
 interface TravelTimeData {
   origin: string;
   neighborhood: string;
+  address?: string;
+  lat: number;
+  lng: number;
   duration: number;
   distance: number;
   status: string;
+  // Only present when the data was loaded with traffic models
+  optimisticDuration?: number;
+  pessimisticDuration?: number;
+  // Estimated toll per trip; unset when unknown or the route can't have tolls
+  tollCost?: number;
+  tollCurrency?: string;
+  // Why the router couldn't answer, on failed results
+  error?: RouteError;
 }
 
 interface DestinationData {
@@ -30,379 +106,780 @@ interface MultiDestinationData {
   offpeak: DestinationData[];
 }
 
-type ViewMode = "individual" | "comparison";
-type TimePeriod = "rush" | "offpeak" | "combined";
-type DisplayMode = "weekly" | "per-trip";
+type WeeklyProfile = RouterOutputs["traffic"]["getWeeklyProfile"];
+type MultiDestinationResponse =
+  RouterOutputs["traffic"]["getTravelTimesMultiDestination"];
+
+// Milliseconds each slot stays on screen while the weekly profile plays
+const PLAYBACK_INTERVAL_MS = 700;
+// How long the view has to stay put before the URL follows it
+const URL_UPDATE_DELAY_MS = 500;
+
+// A destination with a return trip counts both legs as one trip, so weekly totals include the way back
+const foldReturnLegs = (
+  destinations: MultiDestinationResponse["destinations"],
+): DestinationData[] =>
+  destinations.map(({ results, ...destData }) => ({
+    ...destData,
+    results: results.map(({ returnLeg, ...result }) =>
+      foldReturnLeg(result, returnLeg),
+    ),
+  }));
+
+// What a destination's travel times depend on, to tell when an edit or a shared link reroutes it.
+// Unset route modifiers follow the map's, so they differ from ones turned off
+const routingKey = ({
+  lat,
+  lng,
+  travelMode,
+  returnDeparture,
+  routeModifiers,
+}: Destination) =>
+  JSON.stringify([
+    lat,
+    lng,
+    travelMode,
+    returnDeparture ?? null,
+    routeModifiers?.avoidTolls ?? null,
+    routeModifiers?.avoidHighways ?? null,
+    routeModifiers?.avoidFerries ?? null,
+  ]);
+
+// The roads the map-wide modifiers avoid, where turned off and unset mean the same
+const avoidedRoads = (modifiers: RouteModifiers) =>
+  JSON.stringify([
+    !!modifiers.avoidTolls,
+    !!modifiers.avoidHighways,
+    !!modifiers.avoidFerries,
+  ]);
+
+const formatTolls = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: amount < 100 ? 2 : 0,
+  }).format(amount);
+
+// Swap each travel time for how unpredictable it is: pessimistic minus optimistic
+const toSpreadData = (data: DestinationData[]): DestinationData[] =>
+  data.map((destData) => ({
+    ...destData,
+    results: destData.results.map((result) => ({
+      ...result,
+      duration:
+        (result.pessimisticDuration ?? result.duration) -
+        (result.optimisticDuration ?? result.duration),
+    })),
+  }));
 
 export function TrafficHeatmap() {
+  const [regionId, setRegionId] = useState("san-francisco");
   const [destinations, setDestinations] = useState<Destination[]>([]);
-  const [selectedTime, setSelectedTime] = useState<TimePeriod>("combined");
+  const [candidates, setCandidates] = useState<CandidateHome[]>([]);
+  const [timePeriods, setTimePeriods] =
+    useState<TimePeriod[]>(DEFAULT_TIME_PERIODS);
+  // A time period id, or "combined" for the trip-weighted mix of all periods
+  const [selectedTime, setSelectedTime] = useState<string>("combined");
   const [selectedDestination, setSelectedDestination] = useState<string>("all");
   const [viewMode, setViewMode] = useState<ViewMode>("individual");
   const [displayMode, setDisplayMode] = useState<DisplayMode>("weekly");
+  // Route options for every destination that doesn't set its own
+  const [routeModifiers, setRouteModifiers] = useState<RouteModifiers>({});
+  const [costSettings, setCostSettings] = useState<CostSettings>(
+    DEFAULT_COST_SETTINGS,
+  );
+  const [vehicleType, setVehicleType] = useState<VehicleType>("gas");
   const [isLoading, setIsLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  // Bumped whenever loaded data is thrown away, so a load still streaming stops adding to it
+  const loadIdRef = useRef(0);
+
+  const [periodData, setPeriodData] = useState<
+    Record<string, DestinationData[]>
+  >({});
+  // Destinations that failed before any origin came back, by period id
+  const [requestFailures, setRequestFailures] = useState<
+    Record<string, DestinationFailure[]>
+  >({});
+  // Destinations moved or rerouted since their travel times were loaded
+  const [staleDestinationIds, setStaleDestinationIds] = useState<string[]>([]);
+  // Whether the loaded travel times have optimistic and pessimistic ranges, which only loads
+  // from the Reliability view ask for
+  const [hasTrafficRanges, setHasTrafficRanges] = useState(false);
+
+  // Periods of the same kind are averaged so the rush/off-peak math below stays the same
+  const getKindData = (kind: PeriodKind) => {
+    const periods = timePeriods.filter((period) => period.kind === kind);
+    // Only use a kind once every one of its periods has results (which stream in as they load)
+    if (periods.some((period) => !periodData[period.id])) return [];
+    return averagePeriods(periods.map((period) => periodData[period.id]!));
+  };
 
-  const [travelData, setTravelData] = useState<MultiDestinationData>({
-    rush: [],
-    offpeak: [],
-  });
+  const travelData: MultiDestinationData = {
+    rush: getKindData("rush"),
+    offpeak: getKindData("offpeak"),
+  };
 
-  // Get SF addresses
-  const { data: addresses } = api.traffic.getSanFranciscoGrid.useQuery();
+  const selectedPeriod = timePeriods.find(
+    (period) => period.id === selectedTime,
+  );
+  // The weekly profile mixes all trips, like the combined view
+  const selectedKind: PeriodKind | "combined" =
+    viewMode === "profile" ? "combined" : (selectedPeriod?.kind ?? "combined");
+
+  const [profileData, setProfileData] = useState<WeeklyProfile | null>(null);
+  const [profileSlot, setProfileSlot] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  // Step through the week while playing
+  useEffect(() => {
+    if (!isPlaying || !profileData) return;
+    const slotCount = profileData.slots.length;
+    const interval = setInterval(() => {
+      setProfileSlot((slot) => (slot + 1) % slotCount);
+    }, PLAYBACK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, profileData]);
+
+  const formatSlot = (slotIndex: number) => {
+    const slot = profileData?.slots[slotIndex];
+    if (!slot) return "";
+    return `${WEEKDAYS[slot.weekday]?.slice(0, 3)} ${slot.time}`;
+  };
 
-  // Create tRPC utils for imperative calls
-  const utils = api.useUtils();
+  const handleTimePeriodsChange = (nextPeriods: TimePeriod[]) => {
+    // Drop loaded data for periods that were removed or now leave at a different time
+    const isUnchanged = (id: string) => {
+      const before = timePeriods.find((period) => period.id === id);
+      const after = nextPeriods.find((period) => period.id === id);
+      return (
+        !!before &&
+        !!after &&
+        JSON.stringify(before.departure) === JSON.stringify(after.departure)
+      );
+    };
+    const keepUnchanged = <T,>(prev: Record<string, T>) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([id]) => isUnchanged(id)),
+      );
+    setPeriodData(keepUnchanged);
+    setRequestFailures(keepUnchanged);
+    if (!nextPeriods.some((period) => period.id === selectedTime)) {
+      setSelectedTime("combined");
+    }
+    setTimePeriods(nextPeriods);
+  };
 
-  // Fetch travel times for multiple destinations
-  const fetchTravelTimes = async (timeType: "rush" | "offpeak") => {
-    if (!addresses?.length || destinations.length === 0) return;
+  const [originMode, setOriginMode] = useState<OriginMode>("neighborhoods");
+  const [gridSpacing, setGridSpacing] = useState(1000);
+  const [gridShape, setGridShape] = useState<GridShape>("hex");
 
-    setIsLoading(true);
+  const { data: regions } = api.traffic.getRegions.useQuery();
+  const region = regions?.find((r) => r.id === regionId);
 
-    try {
-      console.log(
-        `Starting ${timeType} data fetch for ${destinations.length} destinations`,
-      );
+  // Get the region's origins: the neighborhood catalog or a generated lattice
+  const { data: origins } = api.traffic.getRegionOrigins.useQuery({
+    regionId,
+    generated:
+      originMode === "grid"
+        ? { spacingMeters: gridSpacing, shape: gridShape }
+        : undefined,
+  });
 
-      const response = await utils.traffic.getTravelTimesMultiDestination.fetch(
-        {
-          origins: addresses,
-          destinations: destinations,
-          departureTime: timeType,
-        },
-      );
+  const handleRegionChange = (nextRegionId: string) => {
+    // Travel times from the old region's origins don't mean anything in the new one
+    loadIdRef.current++;
+    setPeriodData({});
+    setRequestFailures({});
+    setStaleDestinationIds([]);
+    setProfileData(null);
+    setProfileSlot(0);
+    setIsPlaying(false);
+    setRegionId(nextRegionId);
+  };
 
-      console.log(`${timeType} data fetch completed:`, response);
+  // Everything a saved scenario brings back, including the travel times loaded so far
+  const getScenarioState = (): ScenarioState => ({
+    regionId,
+    destinations,
+    candidates,
+    timePeriods,
+    view: {
+      viewMode,
+      selectedTime,
+      selectedDestination,
+      displayMode,
+      routeModifiers,
+      originMode,
+      gridSpacing,
+      gridShape,
+      vehicleType,
+      costSettings,
+    },
+    travelData:
+      Object.keys(periodData).length > 0
+        ? { periodData, requestFailures }
+        : null,
+  });
 
-      setTravelData((prev) => ({
-        ...prev,
-        [timeType]: response.destinations,
-      }));
-    } catch (error) {
-      console.error(`Error fetching ${timeType} travel times:`, error);
-    } finally {
-      setIsLoading(false);
-    }
+  const applyScenario = ({ view, travelData, ...state }: SavedScenarioState) => {
+    // Anything still streaming belongs to the setup being replaced
+    loadIdRef.current++;
+    setRegionId(state.regionId);
+    setDestinations(state.destinations);
+    setCandidates(state.candidates);
+    setTimePeriods(state.timePeriods);
+    setViewMode(view.viewMode);
+    setSelectedTime(view.selectedTime);
+    setSelectedDestination(view.selectedDestination);
+    setDisplayMode(view.displayMode);
+    setRouteModifiers(view.routeModifiers);
+    setOriginMode(view.originMode);
+    setGridSpacing(view.gridSpacing);
+    setGridShape(view.gridShape);
+    setVehicleType(view.vehicleType);
+    setCostSettings(view.costSettings);
+    setPeriodData(travelData?.periodData ?? {});
+    setRequestFailures(travelData?.requestFailures ?? {});
+    setHasTrafficRanges(
+      Object.values(travelData?.periodData ?? {}).some((list) =>
+        list.some((destData) =>
+          destData.results.some(
+            (result) => result.optimisticDuration !== undefined,
+          ),
+        ),
+      ),
+    );
+    setStaleDestinationIds([]);
+    setLoadProgress(null);
+    setProfileData(null);
+    setProfileSlot(0);
+    setIsPlaying(false);
   };
 
-  const loadAllData = async () => {
-    if (destinations.length === 0) {
-      alert("Please add at least one destination before loading data.");
-      return;
-    }
-    await fetchTravelTimes("rush");
-    await fetchTravelTimes("offpeak");
+  const handleRouteModifiersChange = (nextModifiers: RouteModifiers) => {
+    // Loaded times followed the old routes
+    loadIdRef.current++;
+    setPeriodData({});
+    setRequestFailures({});
+    setStaleDestinationIds([]);
+    setProfileData(null);
+    setProfileSlot(0);
+    setIsPlaying(false);
+    setRouteModifiers(nextModifiers);
   };
 
-  // Get combined data based on weighted average of rush and offpeak trips
-  const getCombinedData = (): TravelTimeData[] => {
-    const rushData = travelData.rush;
-    const offpeakData = travelData.offpeak;
-
-    if (rushData.length === 0 || offpeakData.length === 0) return [];
+  // Candidate homes are routed alongside the grid so they can be ranked against it
+  const allOrigins = origins ? [...origins, ...candidates] : undefined;
 
-    if (selectedDestination === "all") {
-      // Calculate weighted averages across all destinations
-      const originMap = new Map<
-        string,
-        {
-          totalTime: number;
-          totalTrips: number;
-        }
-      >();
-
-      // Calculate weighted averages for both rush and off-peak
-      [rushData, offpeakData].forEach((timeData, timeIndex) => {
-        const isRush = timeIndex === 0;
+  // Create tRPC utils for imperative calls
+  const utils = api.useUtils();
 
-        timeData.forEach((destData) => {
-          const destination = destinations.find(
-            (d) => d.id === destData.destinationId,
-          );
-          if (!destination) return;
-
-          const tripCount = isRush ? destination.rushTrips : destination.offpeakTrips;
-
-          destData.results.forEach((result) => {
-            if (result.status !== "OK") return;
-
-            const existing = originMap.get(result.origin);
-            if (existing) {
-              existing.totalTime += result.duration * tripCount;
-              existing.totalTrips += tripCount;
-            } else {
-              originMap.set(result.origin, {
-                totalTime: result.duration * tripCount,
-                totalTrips: tripCount,
-              });
-            }
-          });
-        });
-      });
+  // Adding a destination by clicking the map
+  const [isPlacingDestination, setIsPlacingDestination] = useState(false);
+  const [droppedPin, setDroppedPin] = useState<DroppedPin | null>(null);
+  const [isLocatingPin, setIsLocatingPin] = useState(false);
+
+  // Dragged destinations can take the address at their new point
+  const [updateAddressOnMove, setUpdateAddressOnMove] = useState(true);
+
+  // Flags the destinations that have travel times loaded as needing a reload
+  const markStale = (destinationIds: string[]) => {
+    const loaded = destinationIds.filter((destinationId) =>
+      Object.values(periodData).some((list) =>
+        list.some((destData) => destData.destinationId === destinationId),
+      ),
+    );
+    if (loaded.length === 0) return;
+    setStaleDestinationIds((prev) => [
+      ...prev,
+      ...loaded.filter((destinationId) => !prev.includes(destinationId)),
+    ]);
+  };
 
-      // Convert back to TravelTimeData format with weighted averages
-      const combinedResults: TravelTimeData[] = [];
-      originMap.forEach((data, origin) => {
-        if (data.totalTrips === 0) return;
-        
-        const avgDuration = data.totalTime / data.totalTrips;
-        const firstResult = rushData[0]?.results.find(
-          (r) => r.origin === origin,
-        );
-        if (firstResult) {
-          combinedResults.push({
-            ...firstResult,
-            duration: avgDuration,
-          });
-        }
+  const moveDestination = async (
+    destinationId: string,
+    { lat, lng }: { lat: number; lng: number },
+  ) => {
+    setDestinations((prev) =>
+      prev.map((destination) =>
+        destination.id === destinationId
+          ? { ...destination, lat, lng }
+          : destination,
+      ),
+    );
+    // Its loaded travel times were routed to the old point
+    markStale([destinationId]);
+
+    if (!updateAddressOnMove) return;
+    try {
+      const { address } = await utils.traffic.reverseGeocode.fetch({
+        regionId,
+        lat,
+        lng,
       });
-
-      return combinedResults;
-    } else {
-      // Handle specific destination
-      const rushDestData = rushData.find(
-        (dest) => dest.destinationId === selectedDestination,
-      );
-      const offpeakDestData = offpeakData.find(
-        (dest) => dest.destinationId === selectedDestination,
+      if (!address) return;
+      // Unless it was moved again while looking up this address
+      setDestinations((prev) =>
+        prev.map((destination) =>
+          destination.id === destinationId &&
+          destination.lat === lat &&
+          destination.lng === lng
+            ? { ...destination, address }
+            : destination,
+        ),
       );
+    } catch (error) {
+      console.error("Reverse geocoding error:", error);
+    }
+  };
 
-      if (!rushDestData || !offpeakDestData) return [];
-
-      const destination = destinations.find(d => d.id === selectedDestination);
-      if (!destination) return [];
-
-      const originMap = new Map<string, { totalTime: number; totalTrips: number }>();
-
-      // Add rush hour data
-      rushDestData.results.forEach((result) => {
-        if (result.status !== "OK") return;
-        
-        const existing = originMap.get(result.origin);
-        if (existing) {
-          existing.totalTime += result.duration * destination.rushTrips;
-          existing.totalTrips += destination.rushTrips;
-        } else {
-          originMap.set(result.origin, {
-            totalTime: result.duration * destination.rushTrips,
-            totalTrips: destination.rushTrips,
-          });
-        }
-      });
+  // Edits that change where or how a destination is routed leave its loaded times out of date
+  const handleDestinationsChange = (nextDestinations: Destination[]) => {
+    markStale(
+      nextDestinations
+        .filter((destination) => {
+          const current = destinations.find(({ id }) => id === destination.id);
+          return current && routingKey(current) !== routingKey(destination);
+        })
+        .map(({ id }) => id),
+    );
+    setDestinations(nextDestinations);
+  };
 
-      // Add off-peak data
-      offpeakDestData.results.forEach((result) => {
-        if (result.status !== "OK") return;
-        
-        const existing = originMap.get(result.origin);
-        if (existing) {
-          existing.totalTime += result.duration * destination.offpeakTrips;
-          existing.totalTrips += destination.offpeakTrips;
-        } else {
-          originMap.set(result.origin, {
-            totalTime: result.duration * destination.offpeakTrips,
-            totalTrips: destination.offpeakTrips,
-          });
-        }
-      });
+  const staleDestinations = destinations.filter((destination) =>
+    staleDestinationIds.includes(destination.id),
+  );
 
-      // Convert to TravelTimeData format
-      const combinedResults: TravelTimeData[] = [];
-      originMap.forEach((data, origin) => {
-        if (data.totalTrips === 0) return;
-        
-        const avgDuration = data.totalTime / data.totalTrips;
-        const firstResult = rushDestData.results.find(
-          (r) => r.origin === origin,
-        );
-        if (firstResult) {
-          combinedResults.push({
-            ...firstResult,
-            duration: avgDuration,
-          });
-        }
-      });
+  // The map's view as last panned or zoomed, and a view for it to jump to
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  const [viewportRequest, setViewportRequest] = useState<Viewport | null>(null);
+
+  const shareState: ShareState = {
+    regionId,
+    destinations,
+    timePeriods,
+    routeModifiers,
+    originMode,
+    gridSpacing,
+    gridShape,
+    viewMode,
+    selectedTime,
+    displayMode,
+    selectedDestination,
+    viewport,
+  };
+  // For reading the current state from the popstate listener
+  const shareStateRef = useRef(shareState);
+  shareStateRef.current = shareState;
+  const shareQuery = encodeShareState(shareState);
+  const shareQueryWithoutViewport = encodeShareState({
+    ...shareState,
+    viewport: null,
+  });
 
-      return combinedResults;
+  const applySharedState = (shared: ShareState) => {
+    const isSameRegion = shared.regionId === regionId;
+    if (!isSameRegion) handleRegionChange(shared.regionId);
+
+    const nextDestinations: Destination[] = shared.destinations.map(
+      (destination) => {
+        const current = destinations.find(({ id }) => id === destination.id);
+        // The link rounds coordinates, so keep ours when they round to the same point
+        return current &&
+          Math.abs(current.lat - destination.lat) < 1e-5 &&
+          Math.abs(current.lng - destination.lng) < 1e-5
+          ? { ...destination, lat: current.lat, lng: current.lng }
+          : destination;
+      },
+    );
+    if (isSameRegion) {
+      markStale(
+        nextDestinations
+          .filter((destination) => {
+            const current = destinations.find(
+              ({ id }) => id === destination.id,
+            );
+            return current && routingKey(current) !== routingKey(destination);
+          })
+          .map(({ id }) => id),
+      );
     }
-  };
 
-  // Get current data based on view mode and selected destination
-  const getCurrentData = (): TravelTimeData[] => {
-    // Handle combined time period
-    if (selectedTime === "combined") {
-      return getCombinedData();
+    setDestinations(nextDestinations);
+    // Only throw loaded travel times away for what the link actually changes
+    if (JSON.stringify(shared.timePeriods) !== JSON.stringify(timePeriods)) {
+      handleTimePeriodsChange(shared.timePeriods);
     }
-    
-    const currentTimeData = travelData[selectedTime];
-
-    if (viewMode === "individual") {
-      if (selectedDestination === "all") {
-        // Show weighted average for all destinations
-        const originMap = new Map<
-          string,
-          { totalTime: number; totalWeight: number }
-        >();
-
-        currentTimeData.forEach((destData) => {
-          const destination = destinations.find(
-            (d) => d.id === destData.destinationId,
-          );
-          if (!destination) return;
-
-          // Use appropriate trip count based on selected time
-          const tripCount = selectedTime === "rush" ? destination.rushTrips : destination.offpeakTrips;
-
-          destData.results.forEach((result) => {
-            if (result.status !== "OK") return;
-
-            const existing = originMap.get(result.origin);
-            if (existing) {
-              existing.totalTime += result.duration * tripCount;
-              existing.totalWeight += tripCount;
-            } else {
-              originMap.set(result.origin, {
-                totalTime: result.duration * tripCount,
-                totalWeight: tripCount,
-              });
-            }
-          });
-        });
+    if (avoidedRoads(shared.routeModifiers) !== avoidedRoads(routeModifiers)) {
+      handleRouteModifiersChange(shared.routeModifiers);
+    }
+    setOriginMode(shared.originMode);
+    setGridSpacing(shared.gridSpacing);
+    setGridShape(shared.gridShape);
+    setViewMode(shared.viewMode);
+    setSelectedTime(
+      shared.timePeriods.some((period) => period.id === shared.selectedTime)
+        ? shared.selectedTime
+        : "combined",
+    );
+    setDisplayMode(shared.displayMode);
+    setSelectedDestination(shared.selectedDestination);
+    // A new object each time, so the map jumps even to the view it's already at
+    if (shared.viewport) {
+      setViewport(shared.viewport);
+      setViewportRequest({ ...shared.viewport });
+    }
+  };
 
-        // Convert back to TravelTimeData format with weighted averages
-        const weightedResults: TravelTimeData[] = [];
-        originMap.forEach((data, origin) => {
-          const avgDuration = data.totalTime / data.totalWeight;
-          const firstResult = currentTimeData[0]?.results.find(
-            (r) => r.origin === origin,
-          );
-          if (firstResult) {
-            weightedResults.push({
-              ...firstResult,
-              duration: avgDuration,
-            });
-          }
-        });
+  // Set once the link's state is applied, so the defaults don't overwrite it first
+  const [isUrlRestored, setIsUrlRestored] = useState(false);
+  // The last state written to the URL, without the viewport
+  const lastSharedRef = useRef<string | null>(null);
+  const applySharedStateRef = useRef(applySharedState);
+  applySharedStateRef.current = applySharedState;
+
+  // Open the link's view, and follow back/forward through the history written below. Waits
+  // for the regions, so a link to one that doesn't exist keeps the current region
+  const hasRestoredRef = useRef(false);
+  useEffect(() => {
+    if (!regions) return;
+    const regionIds = regions.map(({ id }) => id);
+    const restore = () => {
+      const shared = decodeShareState(
+        window.location.search,
+        shareStateRef.current,
+        regionIds,
+      );
+      if (!shared) return;
+      applySharedStateRef.current(shared);
+      // Whatever the applied state settles to replaces this entry instead of adding one
+      lastSharedRef.current = encodeShareState({ ...shared, viewport: null });
+    };
 
-        return weightedResults;
+    if (!hasRestoredRef.current) {
+      hasRestoredRef.current = true;
+      restore();
+      setIsUrlRestored(true);
+    }
+    window.addEventListener("popstate", restore);
+    return () => window.removeEventListener("popstate", restore);
+  }, [regions]);
+
+  // Each change adds a history entry, once things settle; panning and zooming only update it
+  useEffect(() => {
+    if (!isUrlRestored) return;
+    const timeout = setTimeout(() => {
+      if (window.location.search === `?${shareQuery}`) return;
+      const url = `${window.location.pathname}?${shareQuery}`;
+      if (
+        lastSharedRef.current === null ||
+        lastSharedRef.current === shareQueryWithoutViewport
+      ) {
+        window.history.replaceState(null, "", url);
+      } else {
+        window.history.pushState(null, "", url);
       }
-      // Show specific destination
-      const destData = currentTimeData.find(
-        (dest) => dest.destinationId === selectedDestination,
+      lastSharedRef.current = shareQueryWithoutViewport;
+    }, URL_UPDATE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [isUrlRestored, shareQuery, shareQueryWithoutViewport]);
+
+  const placeDestination = async ({ lat, lng }: { lat: number; lng: number }) => {
+    setIsPlacingDestination(false);
+    // Shown on the map straight away; the address follows
+    setDroppedPin({ lat, lng, address: null, inRegion: true });
+    setIsLocatingPin(true);
+    try {
+      setDroppedPin(
+        await utils.traffic.reverseGeocode.fetch({ regionId, lat, lng }),
       );
-      return destData?.results ?? [];
+    } catch (error) {
+      // The form still opens at the point, labelled by its coordinates
+      console.error("Reverse geocoding error:", error);
+    } finally {
+      setIsLocatingPin(false);
     }
+  };
 
-    if (viewMode === "comparison") {
-      // Show difference between rush and off-peak (traffic delay)
-      const rushData = travelData.rush;
-      const offpeakData = travelData.offpeak;
-
-      if (rushData.length === 0 || offpeakData.length === 0) return [];
-
-      if (selectedDestination === "all") {
-        // Calculate simple averages across all destinations to get per-trip traffic delay
-        const originMap = new Map<
-          string,
-          {
-            rushTimes: number[];
-            offpeakTimes: number[];
-          }
-        >();
-
-        // Collect all times for averaging
-        [rushData, offpeakData].forEach((timeData, timeIndex) => {
-          const isRush = timeIndex === 0;
-
-          timeData.forEach((destData) => {
-            const destination = destinations.find(
-              (d) => d.id === destData.destinationId,
-            );
-            if (!destination) return;
-
-            destData.results.forEach((result) => {
-              if (result.status !== "OK") return;
-
-              const existing = originMap.get(result.origin);
-              if (existing) {
-                if (isRush) {
-                  existing.rushTimes.push(result.duration);
-                } else {
-                  existing.offpeakTimes.push(result.duration);
-                }
-              } else {
-                originMap.set(result.origin, {
-                  rushTimes: isRush ? [result.duration] : [],
-                  offpeakTimes: isRush ? [] : [result.duration],
-                });
-              }
-            });
-          });
-        });
+  /**
+   * Stream travel times for every time period, filling in the map as each arrives. Loads every
+   * destination unless given some, whose old travel times are replaced and the rest kept.
+   */
+  const loadAllData = async (only?: Destination[]) => {
+    if (destinations.length === 0) {
+      alert("Please add at least one destination before loading data.");
+      return;
+    }
+    if (!allOrigins?.length) return;
 
-        // Calculate traffic delay (difference between average rush and off-peak times)
-        const comparisonResults: TravelTimeData[] = [];
-        originMap.forEach((data, origin) => {
-          if (data.rushTimes.length === 0 || data.offpeakTimes.length === 0) return;
+    const loading = only ?? destinations;
+    const loadId = ++loadIdRef.current;
+    const trafficModels = viewMode === "reliability";
+    setIsLoading(true);
+    setHasTrafficRanges((prev) =>
+      only ? prev && trafficModels : trafficModels,
+    );
+    if (only) {
+      const reloaded = new Set(only.map((destination) => destination.id));
+      const dropReloaded = <T extends { destinationId: string }>(
+        prev: Record<string, T[]>,
+      ) =>
+        Object.fromEntries(
+          Object.entries(prev).map(([periodId, list]) => [
+            periodId,
+            list.filter((item) => !reloaded.has(item.destinationId)),
+          ]),
+        );
+      setPeriodData(dropReloaded);
+      setRequestFailures(dropReloaded);
+      setStaleDestinationIds((prev) => prev.filter((id) => !reloaded.has(id)));
+    } else {
+      // Start from an empty map so results from the previous load don't mix in
+      setPeriodData({});
+      setRequestFailures({});
+      setStaleDestinationIds([]);
+    }
+    setLoadProgress({
+      total: loading.length * timePeriods.length,
+      completed: 0,
+      failed: 0,
+      startedAt: Date.now(),
+    });
 
-          const avgRushTime = data.rushTimes.reduce((sum, time) => sum + time, 0) / data.rushTimes.length;
-          const avgOffpeakTime = data.offpeakTimes.reduce((sum, time) => sum + time, 0) / data.offpeakTimes.length;
-          
-          const trafficDelayPerTrip = avgRushTime - avgOffpeakTime;
+    try {
+      const stream = await utils.client.traffic.streamTravelTimes.query({
+        regionId,
+        origins: allOrigins,
+        destinations: loading,
+        periods: timePeriods.map(({ id, kind, departure }) => ({
+          id,
+          kind,
+          departure,
+        })),
+        trafficModels,
+        routeModifiers,
+      });
 
-          const firstResult = rushData[0]?.results.find(
-            (r) => r.origin === origin,
+      for await (const event of stream) {
+        // Leaving the loop cancels the rest of the stream
+        if (loadIdRef.current !== loadId) break;
+
+        if (event.type === "destination") {
+          const [destData] = foldReturnLegs([event.destination]);
+          setPeriodData((prev) => ({
+            ...prev,
+            [event.periodId]: [...(prev[event.periodId] ?? []), destData!],
+          }));
+          // A destination none of whose origins came back counts as failed
+          const allFailed = destData!.results.every(
+            (result) => result.status !== "OK",
           );
-          if (firstResult && trafficDelayPerTrip > 0) {
-            comparisonResults.push({
-              ...firstResult,
-              duration: trafficDelayPerTrip, // This is now per-trip traffic delay
-            });
-          }
-        });
-
-        return comparisonResults;
-      } else {
-        // Show traffic delay for specific destination
-        const rushDestData = rushData.find(
-          (dest) => dest.destinationId === selectedDestination,
-        );
-        const offpeakDestData = offpeakData.find(
-          (dest) => dest.destinationId === selectedDestination,
-        );
+          setLoadProgress(
+            (prev) =>
+              prev && {
+                ...prev,
+                completed: prev.completed + 1,
+                failed: prev.failed + (allFailed ? 1 : 0),
+              },
+          );
+        } else if (event.type === "failed") {
+          console.error(
+            `Failed to load ${event.destinationName} (${event.periodId}): ${describeRouteError(event.error)}`,
+          );
+          setRequestFailures((prev) => ({
+            ...prev,
+            [event.periodId]: [
+              ...(prev[event.periodId] ?? []),
+              requestFailure(
+                event.destinationId,
+                event.destinationName,
+                event.error,
+                allOrigins.length,
+              ),
+            ],
+          }));
+          setLoadProgress(
+            (prev) =>
+              prev && {
+                ...prev,
+                completed: prev.completed + 1,
+                failed: prev.failed + 1,
+              },
+          );
+        } else if (event.type === "done") {
+          console.log(
+            `Travel time cache: ${event.cache.hits} hits, ${event.cache.misses} misses`,
+          );
+        }
+      }
+    } catch (error) {
+      console.error("Error streaming travel times:", error);
+    } finally {
+      setLoadProgress((prev) => prev && { ...prev, finishedAt: Date.now() });
+      setIsLoading(false);
+    }
+  };
 
-        if (!rushDestData || !offpeakDestData) return [];
+  const loadProfile = async () => {
+    if (!allOrigins?.length || destinations.length === 0) return;
 
-        const destination = destinations.find(d => d.id === selectedDestination);
-        if (!destination || destination.rushTrips === 0) return []; // No rush hour trips
+    setIsLoading(true);
+    setIsPlaying(false);
 
-        const comparisonResults: TravelTimeData[] = [];
+    try {
+      const response = await utils.traffic.getWeeklyProfile.fetch({
+        regionId,
+        origins: allOrigins,
+        destinations: destinations,
+        routeModifiers,
+      });
+      setProfileData(response);
+      setProfileSlot(0);
+    } catch (error) {
+      console.error("Error fetching weekly profile:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-        // For each origin, calculate the difference between rush and off-peak
-        rushDestData.results.forEach((rushResult) => {
-          if (rushResult.status !== "OK") return;
+  // Travel times for the selected slot of the weekly profile, weighted by total weekly trips
+  const getProfileData = (): TravelTimeData[] => {
+    if (!profileData) return [];
+
+    const slotData = profileData.destinations.map((destData) => ({
+      destinationId: destData.destinationId,
+      results: destData.origins.map((originProfile) => {
+        const duration = originProfile.durations[profileSlot];
+        return {
+          origin: originProfile.origin,
+          neighborhood: originProfile.neighborhood,
+          address: originProfile.address,
+          lat: originProfile.lat,
+          lng: originProfile.lng,
+          duration: duration ?? 0,
+          distance: originProfile.distances[profileSlot] ?? 0,
+          status: duration === null || duration === undefined ? "FAILED" : "OK",
+        };
+      }),
+    }));
+
+    return weightedScores(
+      [{ kind: "combined", destinations: slotData }],
+      destinations,
+      selectedDestination,
+    );
+  };
 
-          const offpeakResult = offpeakDestData.results.find(
-            (r) => r.origin === rushResult.origin && r.status === "OK",
+  // Swap each travel time for the dollar cost of the trip
+  const toCostData = (data: DestinationData[]): DestinationData[] =>
+    data.map((destData) => {
+      const destination = destinations.find(
+        (d) => d.id === destData.destinationId,
+      );
+      if (!destination) return destData;
+      return {
+        ...destData,
+        results: destData.results.map((result) => ({
+          ...result,
+          duration: tripCost(result, destination, costSettings),
+        })),
+      };
+    });
+
+  // Swap each travel time for the trip's kg of CO2. Rush hour trips emit more the slower they are
+  // than the same trip off-peak.
+  const toEmissionsData = (
+    data: DestinationData[],
+    kind: PeriodKind,
+  ): DestinationData[] =>
+    data.map((destData) => {
+      const destination = destinations.find(
+        (d) => d.id === destData.destinationId,
+      );
+      if (!destination) return destData;
+      const offpeakResults = travelData.offpeak.find(
+        (d) => d.destinationId === destData.destinationId,
+      )?.results;
+      return {
+        ...destData,
+        results: destData.results.map((result) => {
+          const offpeak = offpeakResults?.find(
+            (r) => r.origin === result.origin && r.status === "OK",
           );
+          const congestionRatio =
+            kind === "rush" && offpeak && offpeak.duration > 0
+              ? result.duration / offpeak.duration
+              : 1;
+          return {
+            ...result,
+            duration: tripEmissionsKg(
+              result.distance,
+              destination.travelMode,
+              vehicleType,
+              congestionRatio,
+            ),
+          };
+        }),
+      };
+    });
 
-          if (offpeakResult) {
-            const trafficDelay = rushResult.duration - offpeakResult.duration;
+  // Get current data based on view mode and selected destination
+  const getCurrentData = (): TravelTimeData[] => {
+    if (viewMode === "profile") {
+      return getProfileData();
+    }
 
-            if (trafficDelay > 0) {
-              comparisonResults.push({
-                ...rushResult,
-                duration: trafficDelay,
-              });
-            }
-          }
-        });
+    // Traffic delay always compares rush hour with off-peak
+    if (viewMode === "comparison") {
+      return trafficDelayScores(
+        travelData.rush,
+        travelData.offpeak,
+        destinations,
+        selectedDestination,
+      );
+    }
 
-        return comparisonResults;
-      }
+    // Reliability, cost and emissions run the same trip weighting over spreads, dollars or kg CO2
+    // instead of travel times, so `duration` holds that per-trip value in those views
+    const transform: (
+      data: DestinationData[],
+      kind: PeriodKind,
+    ) => DestinationData[] =
+      viewMode === "reliability"
+        ? toSpreadData
+        : viewMode === "cost"
+          ? toCostData
+          : viewMode === "emissions"
+            ? toEmissionsData
+            : (data) => data;
+
+    // Handle combined time period
+    if (selectedTime === "combined") {
+      return weightedScores(
+        [
+          { kind: "rush", destinations: transform(travelData.rush, "rush") },
+          {
+            kind: "offpeak",
+            destinations: transform(travelData.offpeak, "offpeak"),
+          },
+        ],
+        destinations,
+        selectedDestination,
+      );
     }
 
-    return [];
+    const kind = selectedPeriod?.kind ?? "offpeak";
+    return weightedScores(
+      [
+        {
+          kind,
+          destinations: transform(periodData[selectedTime] ?? [], kind),
+        },
+      ],
+      destinations,
+      selectedDestination,
+    );
   };
 
   const getColorIntensity = (
@@ -444,13 +921,166 @@ export function TrafficHeatmap() {
     };
   };
 
+  /**
+   * Weekly toll spend per origin for the selected time and destination. Origins with an unknown
+   * toll on any weighted trip are left out; trips that can't use toll roads cost nothing.
+   */
+  const getWeeklyTolls = () => {
+    const tolls = new Map<string, number>();
+    let currency = "USD";
+    if (viewMode === "comparison" || viewMode === "profile") {
+      return { tolls, currency };
+    }
+
+    const periods: Array<{ data: DestinationData[]; kind: PeriodKind }> =
+      selectedTime === "combined"
+        ? [
+            { data: travelData.rush, kind: "rush" },
+            { data: travelData.offpeak, kind: "offpeak" },
+          ]
+        : selectedPeriod
+          ? [{ data: periodData[selectedTime] ?? [], kind: selectedPeriod.kind }]
+          : [];
+    if (periods.some(({ data }) => data.length === 0)) {
+      return { tolls, currency };
+    }
+
+    const unknown = new Set<string>();
+    periods.forEach(({ data, kind }) => {
+      data.forEach((destData) => {
+        const destination = destinations.find(
+          (d) => d.id === destData.destinationId,
+        );
+        if (
+          !destination ||
+          (selectedDestination !== "all" && destination.id !== selectedDestination)
+        ) {
+          return;
+        }
+        const tripCount =
+          kind === "rush" ? destination.rushTrips : destination.offpeakTrips;
+        if (tripCount === 0) return;
+
+        destData.results.forEach((result) => {
+          const toll = isTrafficAware(destination.travelMode)
+            ? result.tollCost
+            : 0;
+          if (result.status !== "OK" || toll === undefined) {
+            unknown.add(result.origin);
+            return;
+          }
+          currency = result.tollCurrency ?? currency;
+          tolls.set(
+            result.origin,
+            (tolls.get(result.origin) ?? 0) + toll * tripCount,
+          );
+        });
+      });
+    });
+    unknown.forEach((origin) => tolls.delete(origin));
+
+    return { tolls, currency };
+  };
+
   const currentData = getCurrentData();
 
+  // Everything the router couldn't answer, for the failures panel
+  const loadFailures: PeriodFailure[] = timePeriods.flatMap((period) =>
+    [
+      ...summarizeFailures(periodData[period.id] ?? []),
+      ...(requestFailures[period.id] ?? []),
+    ].map((failure) => ({
+      ...failure,
+      periodId: period.id,
+      periodName: period.name,
+    })),
+  );
+
+  // Origins left without a score because some of the trips behind it failed, and why
+  const getNoDataOrigins = () => {
+    if (viewMode === "profile") return [];
+    const periods =
+      selectedTime === "combined" || viewMode === "comparison"
+        ? timePeriods
+        : timePeriods.filter((period) => period.id === selectedTime);
+    const scored = new Set(currentData.map((point) => point.origin));
+    const noData = new Map<
+      string,
+      Pick<TravelTimeData, "origin" | "neighborhood" | "lat" | "lng"> & {
+        reasons: Set<string>;
+      }
+    >();
+
+    periods.forEach((period) => {
+      (periodData[period.id] ?? []).forEach((destData) => {
+        if (
+          selectedDestination !== "all" &&
+          destData.destinationId !== selectedDestination
+        ) {
+          return;
+        }
+        destData.results.forEach((result) => {
+          if (result.status === "OK" || scored.has(result.origin)) return;
+          const entry = noData.get(result.origin) ?? {
+            origin: result.origin,
+            neighborhood: result.neighborhood,
+            lat: result.lat,
+            lng: result.lng,
+            reasons: new Set<string>(),
+          };
+          entry.reasons.add(
+            `${destData.destinationName}: ${result.error ? describeRouteError(result.error) : "No travel time"}`,
+          );
+          noData.set(result.origin, entry);
+        });
+      });
+    });
+
+    return [...noData.values()].map(({ reasons, ...origin }) => ({
+      ...origin,
+      reasons: [...reasons],
+    }));
+  };
+  const noDataOrigins = getNoDataOrigins();
+  // How many trips a week each per-trip score stands for
+  const totalTripMultiplier = weeklyTrips(
+    destinations,
+    viewMode === "comparison" ? "traffic-delay" : "travel-time",
+    selectedKind,
+    selectedDestination,
+  );
+  const weeklyTolls = getWeeklyTolls();
+  const weeklyTollLabels = Object.fromEntries(
+    [...weeklyTolls.tolls].map(([origin, amount]) => [
+      origin,
+      formatTolls(amount, weeklyTolls.currency),
+    ]),
+  );
+
+  // Rank every scored origin so candidates can be compared with the grid
+  const candidateScores: Record<string, CandidateScore> = {};
+  const rankedData = currentData
+    .filter((point) => point.status === "OK" && point.duration > 0)
+    .sort((a, b) => a.duration - b.duration);
+  rankedData.forEach((point, index) => {
+    if (!candidates.some((candidate) => candidate.id === point.origin)) return;
+    candidateScores[point.origin] = {
+      label:
+        viewMode === "cost"
+          ? `${formatDollars(point.duration)}/trip`
+          : viewMode === "emissions"
+            ? `${formatKgCo2(point.duration)}/trip`
+            : `${Math.round(point.duration / 60)} min/trip`,
+      rank: index + 1,
+      total: rankedData.length,
+    };
+  });
+
   return (
     <div className="mx-auto w-full max-w-7xl space-y-4 p-6">
       <div className="text-center">
         <h1 className="mb-2 text-4xl font-bold text-gray-900">
-          SF Traffic Map
+          {region?.name ?? "Commute"} Traffic Map
         </h1>
         <p className="text-lg text-gray-600">
           Analyze your commute patterns with weighted travel times and traffic
@@ -458,12 +1088,37 @@ export function TrafficHeatmap() {
         </p>
       </div>
 
+      <ScenarioPicker getState={getScenarioState} onLoad={applyScenario} />
+
       {/* Destination Management */}
       <DestinationManager
         destinations={destinations}
-        onDestinationsChange={setDestinations}
+        onDestinationsChange={handleDestinationsChange}
+        regionId={regionId}
+        droppedPin={isLocatingPin ? null : droppedPin}
+        onDroppedPinDone={() => setDroppedPin(null)}
+      />
+
+      <CandidateHomeManager
+        candidates={candidates}
+        onCandidatesChange={setCandidates}
+        regionId={regionId}
+        scores={candidateScores}
+      />
+
+      <TimePeriodManager
+        timePeriods={timePeriods}
+        onTimePeriodsChange={handleTimePeriodsChange}
       />
 
+      {viewMode === "cost" && (
+        <CostSettingsManager
+          settings={costSettings}
+          onSettingsChange={setCostSettings}
+          destinations={destinations}
+        />
+      )}
+
       {/* Controls */}
       <div className="rounded-lg bg-white p-6 shadow-lg">
         <div className="flex flex-col items-start justify-between gap-6 lg:flex-row lg:items-center">
@@ -494,36 +1149,75 @@ export function TrafficHeatmap() {
                 >
                   Time Sitting in Traffic
                 </button>
+                <button
+                  onClick={() => setViewMode("profile")}
+                  className={`rounded-lg px-4 py-2 font-medium transition-colors ${
+                    viewMode === "profile"
+                      ? "bg-teal-500 text-white"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  }`}
+                >
+                  Time of Week
+                </button>
+                <button
+                  onClick={() => setViewMode("reliability")}
+                  className={`rounded-lg px-4 py-2 font-medium transition-colors ${
+                    viewMode === "reliability"
+                      ? "bg-rose-500 text-white"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  }`}
+                >
+                  Reliability
+                </button>
+                <button
+                  onClick={() => setViewMode("cost")}
+                  className={`rounded-lg px-4 py-2 font-medium transition-colors ${
+                    viewMode === "cost"
+                      ? "bg-emerald-500 text-white"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  }`}
+                >
+                  Cost
+                </button>
+                <button
+                  onClick={() => setViewMode("emissions")}
+                  className={`rounded-lg px-4 py-2 font-medium transition-colors ${
+                    viewMode === "emissions"
+                      ? "bg-lime-600 text-white"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  }`}
+                >
+                  Emissions
+                </button>
               </div>
             </div>
 
-            {/* Time Selection (only for individual mode) */}
-            {viewMode === "individual" && (
+            {/* Time Selection (not for the comparison and weekly profile modes) */}
+            {(viewMode === "individual" ||
+              viewMode === "reliability" ||
+              viewMode === "cost" ||
+              viewMode === "emissions") && (
               <div className="flex flex-col">
                 <label className="mb-2 text-sm font-medium text-gray-700">
                   Time Period
                 </label>
-                <div className="flex gap-2">
-                  <button
-                    onClick={() => setSelectedTime("rush")}
-                    className={`rounded-lg px-4 py-2 font-medium transition-colors ${
-                      selectedTime === "rush"
-                        ? "bg-red-500 text-white"
-                        : "bg-gray-200 text-gray-700 hover:bg-gray-300"
-                    }`}
-                  >
-                    Rush Hour
-                  </button>
-                  <button
-                    onClick={() => setSelectedTime("offpeak")}
-                    className={`rounded-lg px-4 py-2 font-medium transition-colors ${
-                      selectedTime === "offpeak"
-                        ? "bg-green-500 text-white"
-                        : "bg-gray-200 text-gray-700 hover:bg-gray-300"
-                    }`}
-                  >
-                    Off-Peak
-                  </button>
+                <div className="flex flex-wrap gap-2">
+                  {timePeriods.map((period) => (
+                    <button
+                      key={period.id}
+                      onClick={() => setSelectedTime(period.id)}
+                      title={describeDeparture(period.departure)}
+                      className={`rounded-lg px-4 py-2 font-medium transition-colors ${
+                        selectedTime === period.id
+                          ? period.kind === "rush"
+                            ? "bg-red-500 text-white"
+                            : "bg-green-500 text-white"
+                          : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                      }`}
+                    >
+                      {period.name}
+                    </button>
+                  ))}
                   <button
                     onClick={() => setSelectedTime("combined")}
                     className={`rounded-lg px-4 py-2 font-medium transition-colors ${
@@ -538,6 +1232,26 @@ export function TrafficHeatmap() {
               </div>
             )}
 
+            {/* Vehicle Selection (only for emissions mode) */}
+            {viewMode === "emissions" && (
+              <div className="flex flex-col">
+                <label className="mb-2 text-sm font-medium text-gray-700">
+                  Vehicle
+                </label>
+                <select
+                  value={vehicleType}
+                  onChange={(e) => setVehicleType(e.target.value as VehicleType)}
+                  className="rounded-lg border border-gray-300 px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                >
+                  {Object.entries(VEHICLE_TYPE_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Display Mode Selector */}
             <div className="flex flex-col">
               <label className="mb-2 text-sm font-medium text-gray-700">
@@ -567,9 +1281,84 @@ export function TrafficHeatmap() {
               </div>
             </div>
 
-            {/* Destination Selection (for individual and comparison modes) */}
-            {(viewMode === "individual" || viewMode === "comparison") &&
-              destinations.length > 1 && (
+            {/* Region Selection */}
+            <div className="flex flex-col">
+              <label className="mb-2 text-sm font-medium text-gray-700">
+                Region
+              </label>
+              <select
+                value={regionId}
+                onChange={(e) => handleRegionChange(e.target.value)}
+                className="rounded-lg border border-gray-300 px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {regions?.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {r.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Origin Selection */}
+            <div className="flex flex-col">
+              <label className="mb-2 text-sm font-medium text-gray-700">
+                Origins
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={originMode}
+                  onChange={(e) => setOriginMode(e.target.value as OriginMode)}
+                  className="rounded-lg border border-gray-300 px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                >
+                  <option value="neighborhoods">Neighborhoods</option>
+                  <option value="grid">Generated Grid</option>
+                </select>
+                {originMode === "grid" && (
+                  <>
+                    <select
+                      value={gridSpacing}
+                      onChange={(e) => setGridSpacing(parseInt(e.target.value))}
+                      className="rounded-lg border border-gray-300 px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    >
+                      <option value={500}>500 m</option>
+                      <option value={1000}>1 km</option>
+                      <option value={1500}>1.5 km</option>
+                      <option value={2000}>2 km</option>
+                    </select>
+                    <select
+                      value={gridShape}
+                      onChange={(e) => setGridShape(e.target.value as GridShape)}
+                      className="rounded-lg border border-gray-300 px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    >
+                      <option value="hex">Hex</option>
+                      <option value="square">Square</option>
+                    </select>
+                  </>
+                )}
+              </div>
+              {origins && (
+                <span className="mt-1 text-xs text-gray-500">
+                  {origins.length} points
+                </span>
+              )}
+            </div>
+
+            {/* Route Options */}
+            <div className="flex flex-col">
+              <label className="mb-2 text-sm font-medium text-gray-700">
+                Route Options
+              </label>
+              <RouteModifierEditor
+                routeModifiers={routeModifiers}
+                onChange={handleRouteModifiersChange}
+              />
+              <span className="mt-1 text-xs text-gray-500">
+                For driving destinations without their own
+              </span>
+            </div>
+
+            {/* Destination Selection */}
+            {destinations.length > 1 && (
                 <div className="flex flex-col">
                   <label className="mb-2 text-sm font-medium text-gray-700">
                     Destination
@@ -590,6 +1379,32 @@ export function TrafficHeatmap() {
               )}
           </div>
         </div>
+
+        {/* Weekly profile playback */}
+        {viewMode === "profile" && profileData && (
+          <div className="mt-6 flex items-center gap-4">
+            <button
+              onClick={() => setIsPlaying(!isPlaying)}
+              className="w-20 rounded-lg bg-teal-500 px-4 py-2 font-medium text-white transition-colors hover:bg-teal-600"
+            >
+              {isPlaying ? "Pause" : "Play"}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={profileData.slots.length - 1}
+              value={profileSlot}
+              onChange={(e) => {
+                setIsPlaying(false);
+                setProfileSlot(parseInt(e.target.value));
+              }}
+              className="flex-1"
+            />
+            <span className="w-24 text-right font-mono text-sm text-gray-700">
+              {formatSlot(profileSlot)}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Dynamic Legend */}
@@ -607,7 +1422,9 @@ export function TrafficHeatmap() {
                   Traffic Legend
                 </span>
                 <button
-                  onClick={() => void loadAllData()}
+                  onClick={() =>
+                    void (viewMode === "profile" ? loadProfile() : loadAllData())
+                  }
                   disabled={isLoading || destinations.length === 0}
                   className={`rounded-lg px-4 py-2 font-medium transition-colors flex-1 ${
                     isLoading || destinations.length === 0
@@ -615,7 +1432,11 @@ export function TrafficHeatmap() {
                       : "bg-violet-600 text-white hover:bg-violet-700 cursor-pointer"
                   }`}
                 >
-                  {isLoading ? "Loading..." : "Load Traffic Data"}
+                  {isLoading
+                    ? "Loading..."
+                    : viewMode === "profile"
+                      ? "Load Weekly Profile"
+                      : "Load Traffic Data"}
                 </button>
                 <div className="flex-1" />
               </div>
@@ -646,38 +1467,53 @@ export function TrafficHeatmap() {
 
         // Apply weekly multiplier if in weekly display mode
         if (displayMode === "weekly") {
-          const destinationsForCalc = selectedDestination === "all" 
-            ? destinations 
-            : destinations.filter(d => d.id === selectedDestination);
-          
-          const totalTripMultiplier = destinationsForCalc.length > 0 
-            ? destinationsForCalc.reduce((sum, dest) => {
-                if (viewMode === "comparison") {
-                  return sum + dest.rushTrips; // Traffic delay only applies to rush trips
-                } else if (selectedTime === "rush") {
-                  return sum + dest.rushTrips;
-                } else if (selectedTime === "offpeak") {
-                  return sum + dest.offpeakTrips;
-                } else { // combined
-                  return sum + dest.rushTrips + dest.offpeakTrips;
-                }
-              }, 0)
-            : 1;
-          
           minMinutes = Math.round(minMinutes * totalTripMultiplier);
           maxMinutes = Math.round(maxMinutes * totalTripMultiplier);
           avgMinutes = Math.round(avgMinutes * totalTripMultiplier);
         }
 
-        const getTimePeriodLabel = () => {
-          if (selectedTime === "rush") return "Rush Hour";
-          if (selectedTime === "offpeak") return "Off-Peak";
-          return "Combined";
-        };
+        const getTimePeriodLabel = () => selectedPeriod?.name ?? "Combined";
+
+        // In the cost and emissions views durations are dollars or kg CO2 per trip
+        const formatAmount =
+          viewMode === "cost"
+            ? formatDollars
+            : viewMode === "emissions"
+              ? formatKgCo2
+              : null;
+        const amountScale = displayMode === "weekly" ? totalTripMultiplier : 1;
+        const formatLegendValue = (minutes: number, amount: number) =>
+          formatAmount
+            ? `${formatAmount(amount * amountScale)}${displayMode === "weekly" ? "/week" : "/trip"}`
+            : `${minutes}${displayMode === "weekly" ? " min/week" : " min/trip"}`;
+        const minAmount = Math.min(...durations);
+        const maxAmount = Math.max(...durations);
+        const avgAmount =
+          durations.reduce((sum, d) => sum + d, 0) / durations.length;
+
+        const tollAmounts = [...weeklyTolls.tolls.values()];
+        const showTolls = tollAmounts.some((amount) => amount > 0);
+
+        // The weekly profile only times the way out
+        const includesReturnTrips =
+          viewMode !== "profile" &&
+          destinations.some(
+            (d) =>
+              d.returnDeparture &&
+              (selectedDestination === "all" || d.id === selectedDestination),
+          );
 
         const legendTitle =
           viewMode === "comparison"
             ? "Traffic Delay (Rush - Off-Peak)"
+            : viewMode === "reliability"
+              ? `Travel Time Spread (Pessimistic - Optimistic, ${getTimePeriodLabel()})`
+            : viewMode === "cost"
+              ? `Commute Cost (${getTimePeriodLabel()})`
+            : viewMode === "emissions"
+              ? `CO2 Emissions (${getTimePeriodLabel()})`
+            : viewMode === "profile"
+              ? `Travel Time (${formatSlot(profileSlot)})`
             : selectedDestination === "all"
               ? "Weighted Average Travel Time"
               : `Travel Time (${getTimePeriodLabel()})`;
@@ -687,9 +1523,16 @@ export function TrafficHeatmap() {
             <div className="mb-2 flex items-center justify-between">
               <span className="text-lg font-semibold text-gray-900 flex-1">
                 {legendTitle}
+                {includesReturnTrips && (
+                  <span className="block text-xs font-normal text-gray-500">
+                    Includes both legs of return trips
+                  </span>
+                )}
               </span>
               <button
-                onClick={() => void loadAllData()}
+                onClick={() =>
+                  void (viewMode === "profile" ? loadProfile() : loadAllData())
+                }
                 disabled={isLoading || destinations.length === 0}
                 className={`rounded-lg px-4 py-2 font-medium transition-colors flex-1 ${
                   isLoading || destinations.length === 0
@@ -697,7 +1540,11 @@ export function TrafficHeatmap() {
                     : "bg-violet-600 text-white hover:bg-violet-700 cursor-pointer"
                 }`}
               >
-                {isLoading ? "Loading..." : "Load Traffic Data"}
+                {isLoading
+                    ? "Loading..."
+                    : viewMode === "profile"
+                      ? "Load Weekly Profile"
+                      : "Load Traffic Data"}
               </button>
               <div className="flex-1" />
             </div>
@@ -705,38 +1552,149 @@ export function TrafficHeatmap() {
               <div className="flex items-center gap-2">
                 <div className="h-4 w-4 rounded bg-green-500"></div>
                 <span className="text-sm font-medium">
-                  Fast: {minMinutes}{displayMode === "weekly" ? " min/week" : " min/trip"}
+                  {viewMode === "cost" ? "Cheap" : viewMode === "emissions" ? "Clean" : "Fast"}:{" "}
+                  {formatLegendValue(minMinutes, minAmount)}
                 </span>
               </div>
               <div className="flex items-center gap-2">
                 <div className="h-4 w-4 rounded bg-yellow-500"></div>
                 <span className="text-sm font-medium">
-                  Avg: {avgMinutes}{displayMode === "weekly" ? " min/week" : " min/trip"}
+                  Avg: {formatLegendValue(avgMinutes, avgAmount)}
                 </span>
               </div>
               <div className="flex items-center gap-2">
                 <div className="h-4 w-4 rounded bg-red-500"></div>
                 <span className="text-sm font-medium">
-                  Slow: {maxMinutes}{displayMode === "weekly" ? " min/week" : " min/trip"}
+                  {viewMode === "cost" ? "Expensive" : viewMode === "emissions" ? "Dirty" : "Slow"}:{" "}
+                  {formatLegendValue(maxMinutes, maxAmount)}
                 </span>
               </div>
+              {formatAmount && (
+                <div className="flex items-center gap-2 border-l border-gray-300 pl-6">
+                  <span className="text-sm font-medium">
+                    Annual: {formatAmount(minAmount * totalTripMultiplier * WEEKS_PER_YEAR)}
+                    {" – "}
+                    {formatAmount(maxAmount * totalTripMultiplier * WEEKS_PER_YEAR)}
+                  </span>
+                </div>
+              )}
+              {showTolls && (
+                <div className="flex items-center gap-2 border-l border-gray-300 pl-6">
+                  <span className="text-sm font-medium">
+                    Tolls:{" "}
+                    {formatTolls(Math.min(...tollAmounts), weeklyTolls.currency)}
+                    {" – "}
+                    {formatTolls(Math.max(...tollAmounts), weeklyTolls.currency)}
+                    /week
+                  </span>
+                </div>
+              )}
             </div>
           </div>
         );
       })()}
 
+      {loadProgress && viewMode !== "profile" && (
+        <LoadProgressBar progress={loadProgress} />
+      )}
+
+      {viewMode !== "profile" && <FailuresPanel failures={loadFailures} />}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => setIsPlacingDestination(!isPlacingDestination)}
+          disabled={isLocatingPin}
+          className={`rounded-lg px-4 py-2 text-sm transition-colors disabled:cursor-not-allowed disabled:bg-gray-300 ${
+            isPlacingDestination
+              ? "bg-gray-300 text-gray-700 hover:bg-gray-400"
+              : "bg-blue-500 text-white hover:bg-blue-600"
+          }`}
+        >
+          {isPlacingDestination ? "Cancel" : "Add Destination on Map"}
+        </button>
+        {isPlacingDestination && (
+          <span className="text-sm text-gray-600">
+            Click the map where the destination is
+          </span>
+        )}
+        {isLocatingPin && (
+          <span className="text-sm text-gray-600">Finding the address...</span>
+        )}
+        <label className="ml-auto flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={updateAddressOnMove}
+            onChange={(e) => setUpdateAddressOnMove(e.target.checked)}
+          />
+          Update the address when a destination marker is dragged
+        </label>
+      </div>
+
+      {staleDestinations.length > 0 && viewMode !== "profile" && (
+        <div className="flex items-center justify-between rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          <span>
+            Travel times for{" "}
+            {staleDestinations.map((destination) => destination.name).join(", ")}{" "}
+            are out of date since{" "}
+            {staleDestinations.length === 1 ? "it was" : "they were"} moved or
+            rerouted.
+          </span>
+          <button
+            onClick={() => void loadAllData(staleDestinations)}
+            disabled={isLoading}
+            className="rounded-lg bg-amber-500 px-3 py-1 text-white transition-colors hover:bg-amber-600 disabled:cursor-not-allowed disabled:bg-gray-400"
+          >
+            Reload {staleDestinations.length === 1 ? "It" : "Them"}
+          </button>
+        </div>
+      )}
+
+      {viewMode === "reliability" &&
+        !hasTrafficRanges &&
+        Object.keys(periodData).length > 0 && (
+          <div className="flex items-center justify-between rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            <span>
+              These travel times were loaded without traffic ranges, so every
+              spread shows as zero. Reload them to see how much each trip can
+              vary.
+            </span>
+            <button
+              onClick={() => void loadAllData()}
+              disabled={isLoading}
+              className="rounded-lg bg-amber-500 px-3 py-1 text-white transition-colors hover:bg-amber-600 disabled:cursor-not-allowed disabled:bg-gray-400"
+            >
+              Reload with Ranges
+            </button>
+          </div>
+        )}
+
       {/* Map */}
       <div className="h-[700px] w-full overflow-hidden rounded-lg border shadow-lg">
-        <TrafficMapDisplay
-          data={currentData}
-          destinations={destinations}
-          travelData={travelData}
-          getColorIntensity={getColorIntensity}
-          selectedTime={selectedTime}
-          viewMode={viewMode}
-          selectedDestination={selectedDestination}
-          displayMode={displayMode}
-        />
+        {region && (
+          <TrafficMapDisplay
+            region={region}
+            data={currentData}
+            candidates={candidates}
+            destinations={destinations}
+            travelData={travelData}
+            getColorIntensity={getColorIntensity}
+            selectedTime={selectedKind}
+            viewMode={viewMode}
+            selectedDestination={selectedDestination}
+            displayMode={displayMode}
+            weeklyTolls={weeklyTollLabels}
+            weeklyTrips={totalTripMultiplier}
+            noDataOrigins={noDataOrigins}
+            isPlacingDestination={isPlacingDestination}
+            onPlaceDestination={(point) => void placeDestination(point)}
+            droppedPin={droppedPin}
+            onDestinationMove={(destinationId, point) =>
+              void moveDestination(destinationId, point)
+            }
+            viewportRequest={viewportRequest}
+            onViewportChange={setViewport}
+          />
+        )}
       </div>
     </div>
   );
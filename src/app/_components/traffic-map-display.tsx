@@ -3,6 +3,9 @@
 import { useEffect, useRef } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
+import { formatKgCo2 } from "~/lib/emissions";
+import { escapeHtml } from "~/lib/html";
+import { formatDollars } from "./cost-settings-manager";
 
 // Fix for default markers in Leaflet
 // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-member-access
@@ -17,8 +20,11 @@ L.Icon.Default.mergeOptions({
 });
 
 interface TravelTimeData {
-  origin: string; // Address string
+  origin: string; // Origin id from the catalog or grid
   neighborhood: string;
+  address?: string;
+  lat: number;
+  lng: number;
   duration: number;
   distance: number;
   status: string;
@@ -32,9 +38,40 @@ interface Destination {
   lng: number;
   rushTrips: number;
   offpeakTrips: number;
+  travelMode: string;
+  returnDeparture?: { weekday: number; time: string };
+}
+
+// An origin some of whose trips failed, so it has no score to color by
+interface NoDataOrigin {
+  origin: string;
+  neighborhood: string;
+  lat: number;
+  lng: number;
+  reasons: string[];
 }
 
-type ViewMode = "individual" | "weighted" | "comparison";
+interface Viewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+interface CandidateHome {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+type ViewMode =
+  | "individual"
+  | "weighted"
+  | "comparison"
+  | "profile"
+  | "reliability"
+  | "cost"
+  | "emissions";
 type TimePeriod = "rush" | "offpeak" | "combined";
 
 interface DestinationData {
@@ -49,8 +86,24 @@ interface MultiDestinationData {
   offpeak: DestinationData[];
 }
 
+const candidateIcon = (color: string) =>
+  L.divIcon({
+    html: `<div style="background-color: ${color}; width: 22px; height: 22px; border-radius: 4px; border: 3px solid #F59E0B; box-shadow: 0 2px 6px rgba(0,0,0,0.3); display: flex; align-items: center; justify-content: center; color: white; font-size: 13px;">⌂</div>`,
+    className: "custom-marker",
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+  });
+
+interface MapRegion {
+  id: string;
+  center: { lat: number; lng: number };
+  zoom: number;
+}
+
 interface TrafficMapDisplayProps {
+  region: MapRegion;
   data: TravelTimeData[];
+  candidates: CandidateHome[];
   destinations: Destination[];
   travelData: MultiDestinationData;
   getColorIntensity: (
@@ -62,119 +115,30 @@ interface TrafficMapDisplayProps {
   viewMode: ViewMode;
   selectedDestination: string;
   displayMode: "weekly" | "per-trip";
+  // Formatted weekly toll spend by origin id, for origins with known tolls
+  weeklyTolls: Record<string, string>;
+  // Trips a week each per-trip value stands for in the current view
+  weeklyTrips: number;
+  noDataOrigins: NoDataOrigin[];
+  // While set, clicking the map picks a point for a new destination
+  isPlacingDestination: boolean;
+  onPlaceDestination: (point: { lat: number; lng: number }) => void;
+  // Where the destination being added will go
+  droppedPin: { lat: number; lng: number } | null;
+  // A destination marker was dragged to a new point
+  onDestinationMove: (
+    destinationId: string,
+    point: { lat: number; lng: number },
+  ) => void;
+  // Jumps here whenever a new object is passed, e.g. when a shared link is opened
+  viewportRequest: Viewport | null;
+  onViewportChange: (viewport: Viewport) => void;
 }
 
-// Simple geocoding cache for SF addresses (optimized for East Bay commutes)
-const SF_GEOCODE_CACHE: Record<string, { lat: number; lng: number }> = {
-  // Major intersections and landmarks
-  "Market St & Montgomery St, San Francisco, CA": {
-    lat: 37.7944,
-    lng: -122.4019,
-  },
-  "Union Square, San Francisco, CA": { lat: 37.7879, lng: -122.4075 },
-  "Chinatown, San Francisco, CA": { lat: 37.7901, lng: -122.4046 },
-  "North Beach, San Francisco, CA": { lat: 37.8006, lng: -122.4103 },
-  "Fisherman's Wharf, San Francisco, CA": { lat: 37.8084, lng: -122.4089 },
-
-  // SOMA and Mission Bay (close to Bay Bridge)
-  "SOMA, San Francisco, CA": { lat: 37.7749, lng: -122.4194 },
-  "Mission Bay, San Francisco, CA": { lat: 37.7685, lng: -122.3901 },
-  "Potrero Hill, San Francisco, CA": { lat: 37.7659, lng: -122.4077 },
-
-  // Mission District (central)
-  "Mission District, San Francisco, CA": { lat: 37.7599, lng: -122.4148 },
-  "16th Street Mission BART, San Francisco, CA": {
-    lat: 37.7647,
-    lng: -122.4194,
-  },
-  "24th Street Mission BART, San Francisco, CA": {
-    lat: 37.7521,
-    lng: -122.4186,
-  },
-
-  // Castro and Noe Valley
-  "Castro District, San Francisco, CA": { lat: 37.7609, lng: -122.435 },
-  "Noe Valley, San Francisco, CA": { lat: 37.7503, lng: -122.4336 },
-
-  // Hayes Valley and Haight
-  "Hayes Valley, San Francisco, CA": { lat: 37.776, lng: -122.4236 },
-  "Haight Ashbury, San Francisco, CA": { lat: 37.7692, lng: -122.4481 },
-
-  // Richmond District (key locations)
-  "Inner Richmond, San Francisco, CA": { lat: 37.78, lng: -122.4647 },
-  "Outer Richmond, San Francisco, CA": { lat: 37.7756, lng: -122.4944 },
-  "Geary Blvd & 19th Ave, San Francisco, CA": { lat: 37.7816, lng: -122.4751 },
-
-  // Sunset District (key locations)
-  "Inner Sunset, San Francisco, CA": { lat: 37.7644, lng: -122.4751 },
-  "Outer Sunset, San Francisco, CA": { lat: 37.7534, lng: -122.4984 },
-
-  // Pacific Heights and Marina
-  "Pacific Heights, San Francisco, CA": { lat: 37.7956, lng: -122.4339 },
-  "Marina District, San Francisco, CA": { lat: 37.8021, lng: -122.4378 },
-  "Russian Hill, San Francisco, CA": { lat: 37.8014, lng: -122.4189 },
-  "Nob Hill, San Francisco, CA": { lat: 37.7918, lng: -122.4156 },
-
-  // Additional North Beach and Marina points
-  "Columbus Ave & Broadway, San Francisco, CA": {
-    lat: 37.7983,
-    lng: -122.4067,
-  },
-  "Chestnut St & Fillmore St, San Francisco, CA": {
-    lat: 37.8003,
-    lng: -122.4325,
-  },
-  "Palace of Fine Arts, San Francisco, CA": { lat: 37.8023, lng: -122.4486 },
-
-  // Additional Pacific Heights points
-  "Fillmore St & California St, San Francisco, CA": {
-    lat: 37.7889,
-    lng: -122.4331,
-  },
-  "Divisadero St & California St, San Francisco, CA": {
-    lat: 37.7889,
-    lng: -122.4378,
-  },
-
-  // Additional Richmond District points
-  "Clement St & 6th Ave, San Francisco, CA": { lat: 37.7828, lng: -122.4631 },
-  "Clement St & 19th Ave, San Francisco, CA": { lat: 37.7828, lng: -122.4751 },
-
-  // Western Addition and Fillmore
-  "Western Addition, San Francisco, CA": { lat: 37.7844, lng: -122.4394 },
-  "Fillmore District, San Francisco, CA": { lat: 37.7844, lng: -122.4331 },
-  "Japantown, San Francisco, CA": { lat: 37.7856, lng: -122.4297 },
-  "Alamo Square, San Francisco, CA": { lat: 37.7756, lng: -122.4339 },
-
-  // Presidio Area
-  "Presidio, San Francisco, CA": { lat: 37.8021, lng: -122.4647 },
-  "Presidio Heights, San Francisco, CA": { lat: 37.7889, lng: -122.4594 },
-
-  // Central Areas
-  "West Portal, San Francisco, CA": { lat: 37.7394, lng: -122.4661 },
-  "Twin Peaks, San Francisco, CA": { lat: 37.7544, lng: -122.4478 },
-
-  // BART Stations (crucial for East Bay commutes)
-  "Powell Street BART, San Francisco, CA": { lat: 37.7844, lng: -122.4078 },
-  "Montgomery Street BART, San Francisco, CA": { lat: 37.7889, lng: -122.4019 },
-  "Civic Center BART, San Francisco, CA": { lat: 37.7794, lng: -122.4131 },
-
-  // Universities and landmarks
-  "UCSF Parnassus, San Francisco, CA": { lat: 37.7629, lng: -122.4583 },
-  "USF, San Francisco, CA": { lat: 37.7766, lng: -122.4491 },
-  "Golden Gate Park, San Francisco, CA": { lat: 37.7694, lng: -122.4862 },
-
-  // Additional key streets and areas
-  "Van Ness Ave & Geary St, San Francisco, CA": { lat: 37.787, lng: -122.4208 },
-  "Market St & Castro St, San Francisco, CA": { lat: 37.7626, lng: -122.4348 },
-  "Irving St & 19th Ave, San Francisco, CA": { lat: 37.7644, lng: -122.4751 },
-
-  // Southern Mission (close to East Bay)
-  "Dogpatch, San Francisco, CA": { lat: 37.7575, lng: -122.3886 },
-};
-
 export default function TrafficMapDisplay({
+  region,
   data,
+  candidates,
   destinations,
   travelData,
   getColorIntensity,
@@ -182,11 +146,44 @@ export default function TrafficMapDisplay({
   viewMode,
   selectedDestination,
   displayMode,
+  weeklyTolls,
+  weeklyTrips,
+  noDataOrigins,
+  isPlacingDestination,
+  onPlaceDestination,
+  droppedPin,
+  onDestinationMove,
+  viewportRequest,
+  onViewportChange,
 }: TrafficMapDisplayProps) {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
-  const markersRef = useRef<L.CircleMarker[]>([]);
+  const markersRef = useRef<L.Layer[]>([]);
   const destinationMarkersRef = useRef<L.Marker[]>([]);
+  const droppedPinRef = useRef<L.Marker | null>(null);
+  const onPlaceDestinationRef = useRef(onPlaceDestination);
+  onPlaceDestinationRef.current = onPlaceDestination;
+  const onDestinationMoveRef = useRef(onDestinationMove);
+  onDestinationMoveRef.current = onDestinationMove;
+  const onViewportChangeRef = useRef(onViewportChange);
+  onViewportChangeRef.current = onViewportChange;
+  // Set while the code moves the map, so only the user's pans and zooms are reported
+  const isMovingFromCodeRef = useRef(false);
+  // The bounds last fitted to, so the view only jumps when the points on the map change
+  const fittedBoundsRef = useRef<string | null>(null);
+  // Set once a view is requested, which then holds instead of fitting to the points
+  const keepViewRef = useRef(false);
+
+  // Without animation, so the move has ended by the time this returns
+  const moveFromCode = (move: (map: L.Map) => void) => {
+    if (!mapRef.current) return;
+    isMovingFromCodeRef.current = true;
+    try {
+      move(mapRef.current);
+    } finally {
+      isMovingFromCodeRef.current = false;
+    }
+  };
 
 
 
@@ -194,11 +191,8 @@ export default function TrafficMapDisplay({
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return;
 
-    // San Francisco center coordinates
-    const map = L.map(mapContainerRef.current).setView(
-      [37.7749, -122.4194],
-      12,
-    );
+    // The region effect below sets the view
+    const map = L.map(mapContainerRef.current);
 
     // Add OpenStreetMap tiles
     L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
@@ -209,12 +203,61 @@ export default function TrafficMapDisplay({
 
     mapRef.current = map;
 
+    // Report every pan and zoom, so the view can be shared
+    map.on("moveend", () => {
+      if (isMovingFromCodeRef.current) return;
+      const center = map.getCenter();
+      onViewportChangeRef.current({
+        lat: center.lat,
+        lng: center.lng,
+        zoom: map.getZoom(),
+      });
+    });
+
     return () => {
       map.remove();
       mapRef.current = null;
     };
   }, []);
 
+  // Center on the region, and jump whenever it changes
+  useEffect(() => {
+    keepViewRef.current = false;
+    fittedBoundsRef.current = null;
+    moveFromCode((map) =>
+      map.setView([region.center.lat, region.center.lng], region.zoom, {
+        animate: false,
+      }),
+    );
+  }, [region.id, region.center.lat, region.center.lng, region.zoom]);
+
+  // In placing mode a click anywhere, heatmap points included, drops the new destination there
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !isPlacingDestination) return;
+
+    const handleClick = (e: L.LeafletMouseEvent) =>
+      onPlaceDestinationRef.current({ lat: e.latlng.lat, lng: e.latlng.lng });
+    map.getContainer().style.cursor = "crosshair";
+    map.on("click", handleClick);
+
+    return () => {
+      map.getContainer().style.cursor = "";
+      map.off("click", handleClick);
+    };
+  }, [isPlacingDestination]);
+
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    droppedPinRef.current?.remove();
+    droppedPinRef.current = droppedPin
+      ? L.marker([droppedPin.lat, droppedPin.lng], { zIndexOffset: 2000 })
+          .addTo(mapRef.current)
+          .bindTooltip("New destination", { direction: "top", offset: [0, -35] })
+      : null;
+  }, [droppedPin]);
+
   // Add destination markers
   useEffect(() => {
     if (!mapRef.current) return;
@@ -237,15 +280,22 @@ export default function TrafficMapDisplay({
         iconAnchor: [13, 13],
       });
 
+      // Geocoded points can land mid-campus or at the wrong entrance, so they can be dragged
       const marker = L.marker([destination.lat, destination.lng], {
         icon: destinationIcon,
+        draggable: true,
       }).addTo(mapRef.current!).bindPopup(`
           <div style="font-family: sans-serif;">
-            <strong style="color: ${color};">${destination.name}</strong><br/>
-            ${destination.address}<br/>
-            <small style="color: #6B7280;">Weekly trips: ${destination.rushTrips + destination.offpeakTrips}</small>
+            <strong style="color: ${color};">${escapeHtml(destination.name)}</strong><br/>
+            ${escapeHtml(destination.address)}<br/>
+            <small style="color: #6B7280;">Weekly trips: ${destination.rushTrips + destination.offpeakTrips}</small><br/>
+            <small style="color: #9CA3AF;">Drag the marker to adjust the location</small>
           </div>
         `);
+      marker.on("dragend", () => {
+        const { lat, lng } = marker.getLatLng();
+        onDestinationMoveRef.current(destination.id, { lat, lng });
+      });
 
       destinationMarkersRef.current.push(marker);
     });
@@ -263,6 +313,7 @@ export default function TrafficMapDisplay({
     });
     markersRef.current = [];
 
+    const candidateIds = new Set(candidates.map((candidate) => candidate.id));
     const validData = data.filter(
       (point) => point.status === "OK" && point.duration > 0,
     );
@@ -275,52 +326,67 @@ export default function TrafficMapDisplay({
 
     // Add new markers for each valid data point
     validData.forEach((point) => {
-      const coords = SF_GEOCODE_CACHE[point.origin];
-      if (!coords) {
-        console.log(`No coordinates found for address: ${point.origin}`);
-        return;
-      }
-
       const { color, intensity } = getColorIntensity(
         point.duration,
         minDuration,
         maxDuration,
       );
       const minutes = Math.round(point.duration / 60);
+      // Loaded travel times already add the way back for destinations with a return trip
+      const includesReturnTrips =
+        viewMode !== "profile" &&
+        destinations.some(
+          (d) =>
+            d.returnDeparture &&
+            (selectedDestination === "all" || d.id === selectedDestination),
+        );
 
-
-
-      const marker = L.circleMarker([coords.lat, coords.lng], {
-        radius: 8 + intensity * 12, // Size based on travel time
-        fillColor: color,
-        color: "#ffffff",
-        weight: 0,
-        opacity: 0.8,
-        fillOpacity: 0.6,
-      })
+      // Candidate homes stand out from the grid as house pins in the same color scale
+      const marker = candidateIds.has(point.origin)
+        ? L.marker([point.lat, point.lng], {
+            icon: candidateIcon(color),
+            zIndexOffset: 1000,
+          })
+        : L.circleMarker([point.lat, point.lng], {
+            radius: 8 + intensity * 12, // Size based on travel time
+            fillColor: color,
+            color: "#ffffff",
+            weight: 0,
+            opacity: 0.8,
+            fillOpacity: 0.6,
+          });
+
+      marker
         .addTo(mapRef.current!)
         .bindTooltip(
           `
           <div style="font-family: sans-serif; text-align: center; min-width: 240px;">
             <div style="font-weight: bold; color: #1F2937; margin-bottom: 4px;">
-              ${point.neighborhood}
+              ${escapeHtml(point.neighborhood)}
             </div>
-            <div style="font-size: 16px; color: ${minutes > 40 ? "#DC2626" : minutes > 20 ? "#D97706" : "#059669"}; font-weight: bold;">
+            <div style="font-size: 16px; color: ${viewMode === "cost" || viewMode === "emissions" ? "#1F2937" : minutes > 40 ? "#DC2626" : minutes > 20 ? "#D97706" : "#059669"}; font-weight: bold;">
               ${(() => {
                 console.log(`DEBUG - Origin: ${point.origin}`);
                 console.log(`DEBUG - Raw minutes: ${minutes}`);
                 console.log(`DEBUG - ViewMode: ${viewMode}`);
                 console.log(`DEBUG - DisplayMode: ${displayMode}`);
                 
+                if (viewMode === "cost" || viewMode === "emissions") {
+                  // In cost and emissions mode the duration is dollars or kg CO2 per trip
+                  const formatAmount = viewMode === "cost" ? formatDollars : formatKgCo2;
+                  const weeklyAmount = point.duration * weeklyTrips;
+                  return displayMode === "weekly"
+                    ? `${formatAmount(weeklyAmount)}/week<div style="font-size: 12px; font-weight: normal; color: #374151;">${formatAmount(weeklyAmount * 52)}/year</div>`
+                    : viewMode === "cost"
+                      ? `${formatDollars(point.duration)}/trip`
+                      : `${formatKgCo2(point.duration)}/trip`;
+                }
+
                 if (viewMode === "comparison") {
                   // In comparison mode, minutes is already the per-trip traffic delay
                   if (displayMode === "weekly") {
-                    const destinationsForLocation = selectedDestination === "all" 
-                      ? destinations 
-                      : destinations.filter(d => d.id === selectedDestination);
-                    
-                    const totalWeeklyTrafficDelay = destinationsForLocation.reduce((sum, dest) => 
-                      sum + (minutes * dest.rushTrips), 0);
+                    // Only rush hour trips that drive sit in traffic, which weeklyTrips already counts
+                    const totalWeeklyTrafficDelay = minutes * weeklyTrips;
                     console.log(`DEBUG - Weekly traffic delay: ${totalWeeklyTrafficDelay}`);
                     return `+${totalWeeklyTrafficDelay} min/week`;
                   } else {
@@ -330,30 +396,23 @@ export default function TrafficMapDisplay({
                 } else {
                   // Regular driving time
                   if (displayMode === "weekly") {
-                    const destinationsForLocation = selectedDestination === "all" 
-                      ? destinations 
-                      : destinations.filter(d => d.id === selectedDestination);
-                    
-                    let totalWeeklyMinutes = 0;
-                    if (selectedTime === "rush") {
-                      totalWeeklyMinutes = destinationsForLocation.reduce((sum, dest) => 
-                        sum + (minutes * dest.rushTrips), 0);
-                    } else if (selectedTime === "offpeak") {
-                      totalWeeklyMinutes = destinationsForLocation.reduce((sum, dest) => 
-                        sum + (minutes * dest.offpeakTrips), 0);
-                    } else { // combined
-                      totalWeeklyMinutes = destinationsForLocation.reduce((sum, dest) => 
-                        sum + (minutes * (dest.rushTrips + dest.offpeakTrips)), 0);
-                    }
-                    return `${totalWeeklyMinutes} min/week`;
+                    const totalWeeklyMinutes = minutes * weeklyTrips;
+                    // In reliability mode minutes is the pessimistic - optimistic spread
+                    return viewMode === "reliability"
+                      ? `${totalWeeklyMinutes} min spread/week`
+                      : `${totalWeeklyMinutes} min/week`;
                   } else {
-                    return `${minutes} min/trip`;
+                    return viewMode === "reliability"
+                      ? `${minutes} min spread/trip`
+                      : `${minutes} min/trip`;
                   }
                 }
               })()}
             </div>
+            ${weeklyTolls[point.origin] ? `<div style="font-size: 12px; color: #374151;">${weeklyTolls[point.origin]} tolls/week</div>` : ""}
+            ${includesReturnTrips ? `<div style="font-size: 11px; color: #6B7280;">Outbound + return legs</div>` : ""}
             <div style="font-size: 10px; color: #9CA3AF; margin-top: 4px; line-height: 1.2;">
-              ${point.origin.replace(", San Francisco, CA", "")}
+              ${escapeHtml(point.address?.split(",")[0] ?? "")}
             </div>
           </div>
         `,
@@ -368,6 +427,48 @@ export default function TrafficMapDisplay({
       markersRef.current.push(marker);
     });
 
+    // Failed origins stay on the map in grey, saying what went wrong
+    noDataOrigins.forEach((point) => {
+      const tooltip = `<div style="font-family: sans-serif; text-align: center;"><strong>${escapeHtml(point.neighborhood)}</strong><br/><span style="color: #6B7280;">No data</span><br/><small style="color: #6B7280;">${point.reasons.map(escapeHtml).join("<br/>")}</small></div>`;
+      const marker = candidateIds.has(point.origin)
+        ? L.marker([point.lat, point.lng], {
+            icon: candidateIcon("#9CA3AF"),
+            zIndexOffset: 1000,
+          })
+        : L.circleMarker([point.lat, point.lng], {
+            radius: 6,
+            fillColor: "#9CA3AF",
+            color: "#6B7280",
+            weight: 1,
+            opacity: 0.8,
+            fillOpacity: 0.5,
+          });
+      marker
+        .addTo(mapRef.current!)
+        .bindTooltip(tooltip, { direction: "top", offset: [0, -10] });
+      markersRef.current.push(marker);
+    });
+
+    // Candidates without travel times yet still show where they are
+    const scored = new Set([
+      ...validData.map((point) => point.origin),
+      ...noDataOrigins.map((point) => point.origin),
+    ]);
+    candidates
+      .filter((candidate) => !scored.has(candidate.id))
+      .forEach((candidate) => {
+        const marker = L.marker([candidate.lat, candidate.lng], {
+          icon: candidateIcon("#9CA3AF"),
+          zIndexOffset: 1000,
+        })
+          .addTo(mapRef.current!)
+          .bindTooltip(
+            `<div style="font-family: sans-serif; text-align: center;"><strong>${escapeHtml(candidate.name)}</strong><br/><small style="color: #6B7280;">Load data to score this candidate</small></div>`,
+            { direction: "top", offset: [0, -15] },
+          );
+        markersRef.current.push(marker);
+      });
+
     console.log(`Successfully rendered ${markersRef.current.length} markers`);
 
     // Fit map to show all points
@@ -379,10 +480,12 @@ export default function TrafficMapDisplay({
         ...markersRef.current,
         ...destinationMarkersRef.current,
       ];
-      if (allMarkers.length > 0) {
-        const group = new L.FeatureGroup(allMarkers);
-        mapRef.current.fitBounds(group.getBounds().pad(0.1));
+      const bounds = new L.FeatureGroup(allMarkers).getBounds().pad(0.1);
+      const boundsKey = bounds.toBBoxString();
+      if (!keepViewRef.current && boundsKey !== fittedBoundsRef.current) {
+        moveFromCode((map) => map.fitBounds(bounds, { animate: false }));
       }
+      fittedBoundsRef.current = boundsKey;
     }
   }, [
     data,
@@ -393,8 +496,25 @@ export default function TrafficMapDisplay({
     travelData,
     selectedDestination,
     displayMode,
+    candidates,
+    weeklyTolls,
+    weeklyTrips,
+    noDataOrigins,
   ]);
 
+  // After the effects above, so a requested view wins over fitting the markers in the same render
+  useEffect(() => {
+    if (!viewportRequest) return;
+    keepViewRef.current = true;
+    moveFromCode((map) =>
+      map.setView(
+        [viewportRequest.lat, viewportRequest.lng],
+        viewportRequest.zoom,
+        { animate: false },
+      ),
+    );
+  }, [viewportRequest]);
+
   return (
     <div
       ref={mapContainerRef}
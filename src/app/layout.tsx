@@ -6,8 +6,8 @@ import { Geist } from "next/font/google";
 import { TRPCReactProvider } from "~/trpc/react";
 
 export const metadata: Metadata = {
-  title: "SF Traffic Map",
-  description: "Helps you choose where to live in San Francisco to minimize commute time and time spent in traffic",
+  title: "Traffic Map",
+  description: "Helps you choose where to live in San Francisco, the East Bay or Seattle to minimize commute time and time spent in traffic",
   icons: [{ rel: "icon", url: "/favicon.ico" }],
 };
 
@@ -8,7 +8,24 @@ export const env = createEnv({
    */
   server: {
     NODE_ENV: z.enum(["development", "test", "production"]),
-    GOOGLE_MAPS_API_KEY: z.string(),
+    GOOGLE_MAPS_API_KEY: z.string().optional(),
+    // Sends Routes and Geocoding requests to a stand-in server instead of Google
+    GOOGLE_API_BASE_URL: z.string().url().optional(),
+    ROUTING_PROVIDER: z
+      .enum(["google", "osrm", "valhalla", "fixture"])
+      .default("google"),
+    ROUTING_BASE_URL: z.string().url().optional(),
+    ROUTING_FIXTURE_PATH: z.string().optional(),
+    ROUTING_CONCURRENCY: z.coerce.number().int().positive().default(4),
+    ROUTING_REQUESTS_PER_SECOND: z.coerce.number().positive().default(5),
+    ROUTING_MAX_RETRIES: z.coerce.number().int().nonnegative().default(3),
+    TRAVEL_CACHE_PATH: z.string().default(".cache/travel-times.json"),
+    TRAVEL_CACHE_TTL_SECONDS: z.coerce
+      .number()
+      .int()
+      .nonnegative()
+      .default(86400),
+    SCENARIO_DB_PATH: z.string().default(".data/scenarios.json"),
   },
 
   /**
@@ -27,6 +44,16 @@ export const env = createEnv({
   runtimeEnv: {
     NODE_ENV: process.env.NODE_ENV,
     GOOGLE_MAPS_API_KEY: process.env.GOOGLE_MAPS_API_KEY,
+    GOOGLE_API_BASE_URL: process.env.GOOGLE_API_BASE_URL,
+    ROUTING_PROVIDER: process.env.ROUTING_PROVIDER,
+    ROUTING_BASE_URL: process.env.ROUTING_BASE_URL,
+    ROUTING_FIXTURE_PATH: process.env.ROUTING_FIXTURE_PATH,
+    ROUTING_CONCURRENCY: process.env.ROUTING_CONCURRENCY,
+    ROUTING_REQUESTS_PER_SECOND: process.env.ROUTING_REQUESTS_PER_SECOND,
+    ROUTING_MAX_RETRIES: process.env.ROUTING_MAX_RETRIES,
+    TRAVEL_CACHE_PATH: process.env.TRAVEL_CACHE_PATH,
+    TRAVEL_CACHE_TTL_SECONDS: process.env.TRAVEL_CACHE_TTL_SECONDS,
+    SCENARIO_DB_PATH: process.env.SCENARIO_DB_PATH,
     // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
   },
   /**
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+
+import { formatKgCo2, tripEmissionsKg } from "./emissions";
+
+describe("tripEmissionsKg", () => {
+  it("charges road vehicles by distance and extra for congestion", () => {
+    expect(tripEmissionsKg(10_000, "DRIVE", "gas")).toBeCloseTo(2.5);
+    expect(tripEmissionsKg(10_000, "DRIVE", "gas", 2)).toBeCloseTo(3.75);
+    expect(tripEmissionsKg(10_000, "DRIVE", "electric", 2)).toBeCloseTo(0.55);
+    // Past the cap, slower traffic doesn't add any more
+    expect(tripEmissionsKg(10_000, "TWO_WHEELER", "gas", 10)).toBeCloseTo(
+      tripEmissionsKg(10_000, "TWO_WHEELER", "gas", 3),
+    );
+  });
+
+  it("leaves congestion out for transit, walking and cycling", () => {
+    expect(tripEmissionsKg(10_000, "TRANSIT", "gas", 2)).toBeCloseTo(0.9);
+    expect(tripEmissionsKg(10_000, "WALK", "gas")).toBe(0);
+    expect(tripEmissionsKg(10_000, "BICYCLE", "gas")).toBe(0);
+  });
+});
+
+describe("formatKgCo2", () => {
+  it("keeps a decimal for small amounts", () => {
+    expect(formatKgCo2(2.46)).toBe("2.5 kg CO2");
+    expect(formatKgCo2(1234.4)).toBe("1,234 kg CO2");
+  });
+});
@@ -0,0 +1,67 @@
+export type VehicleType = "gas" | "hybrid" | "electric";
+
+export const VEHICLE_TYPE_LABELS: Record<VehicleType, string> = {
+  gas: "Gas car",
+  hybrid: "Hybrid",
+  electric: "Electric car",
+};
+
+// Free-flow emissions in kg CO2 per km. Electric includes grid emissions; transit is per
+// passenger at average occupancy.
+const CAR_KG_PER_KM: Record<VehicleType, number> = {
+  gas: 0.25,
+  hybrid: 0.15,
+  electric: 0.05,
+};
+const TWO_WHEELER_KG_PER_KM = 0.11;
+const TRANSIT_KG_PER_KM = 0.09;
+
+// How much of the extra time spent in congestion turns into extra emissions. Stop-and-go
+// driving hurts combustion engines most; hybrids and EVs recover some of it by regenerative braking.
+const CONGESTION_SENSITIVITY: Record<VehicleType, number> = {
+  gas: 0.5,
+  hybrid: 0.2,
+  electric: 0.1,
+};
+const TWO_WHEELER_CONGESTION_SENSITIVITY = 0.5;
+// Past this, slower traffic is mostly idling rather than more stop-and-go
+const MAX_CONGESTION_RATIO = 3;
+
+/**
+ * Kilograms of CO2 for one trip. `congestionRatio` is the rush hour over off-peak travel time of
+ * the same trip, 1 for off-peak trips; it only affects road vehicles.
+ */
+export const tripEmissionsKg = (
+  distanceMeters: number,
+  travelMode: string,
+  vehicleType: VehicleType,
+  congestionRatio = 1,
+) => {
+  const km = distanceMeters / 1000;
+  switch (travelMode) {
+    case "TRANSIT":
+      return km * TRANSIT_KG_PER_KM;
+    case "TWO_WHEELER":
+    case "DRIVE": {
+      const perKm =
+        travelMode === "DRIVE"
+          ? CAR_KG_PER_KM[vehicleType]
+          : TWO_WHEELER_KG_PER_KM;
+      const sensitivity =
+        travelMode === "DRIVE"
+          ? CONGESTION_SENSITIVITY[vehicleType]
+          : TWO_WHEELER_CONGESTION_SENSITIVITY;
+      const ratio = Math.min(
+        MAX_CONGESTION_RATIO,
+        Math.max(1, congestionRatio),
+      );
+      return km * perKm * (1 + sensitivity * (ratio - 1));
+    }
+    // Walking and cycling
+    default:
+      return 0;
+  }
+};
+
+export const formatKgCo2 = (kg: number) =>
+  `${kg < 10 ? kg.toFixed(1) : Math.round(kg).toLocaleString("en-US")} kg CO2`;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  describeRouteError,
+  requestFailure,
+  summarizeFailures,
+} from "./failures";
+
+const notFound = { code: "ROUTE_NOT_FOUND", message: "No route found" };
+const unavailable = { httpStatus: 503, message: "Routes API error" };
+
+describe("summarizeFailures", () => {
+  it("counts failed origins and groups them by reason", () => {
+    const [failure] = summarizeFailures([
+      {
+        destinationId: "work",
+        destinationName: "Work",
+        results: [
+          { origin: "a", status: "OK" },
+          { origin: "b", status: "FAILED", error: notFound },
+          { origin: "c", status: "FAILED", error: unavailable },
+          { origin: "d", status: "FAILED", error: { ...unavailable } },
+        ],
+      },
+    ]);
+
+    expect(failure).toEqual({
+      destinationId: "work",
+      destinationName: "Work",
+      failedOrigins: 3,
+      totalOrigins: 4,
+      reasons: [
+        { error: unavailable, count: 2 },
+        { error: notFound, count: 1 },
+      ],
+    });
+  });
+
+  it("leaves out destinations without failures", () => {
+    expect(
+      summarizeFailures([
+        {
+          destinationId: "work",
+          destinationName: "Work",
+          results: [{ origin: "a", status: "OK" }],
+        },
+      ]),
+    ).toEqual([]);
+  });
+
+  it("gives failures without a reason an unknown one", () => {
+    const [failure] = summarizeFailures([
+      {
+        destinationId: "work",
+        destinationName: "Work",
+        results: [{ origin: "a", status: "FAILED" }],
+      },
+    ]);
+    expect(failure!.reasons).toEqual([
+      { error: { message: "Unknown error" }, count: 1 },
+    ]);
+  });
+});
+
+describe("requestFailure", () => {
+  it("fails every origin for the one reason", () => {
+    expect(requestFailure("work", "Work", unavailable, 12)).toEqual({
+      destinationId: "work",
+      destinationName: "Work",
+      failedOrigins: 12,
+      totalOrigins: 12,
+      reasons: [{ error: unavailable, count: 12 }],
+    });
+  });
+});
+
+describe("describeRouteError", () => {
+  it("puts the HTTP status and code before the message", () => {
+    expect(describeRouteError(unavailable)).toBe("HTTP 503: Routes API error");
+    expect(describeRouteError(notFound)).toBe(
+      "ROUTE_NOT_FOUND: No route found",
+    );
+    expect(describeRouteError({ message: "Timed out" })).toBe("Timed out");
+  });
+});
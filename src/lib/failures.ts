@@ -0,0 +1,88 @@
+/**
+ * Summaries of the travel times a router couldn't answer, shared by the traffic router's responses
+ * and the map's failures panel.
+ */
+
+/** Why a pair, or the whole request it was part of, couldn't be routed */
+export interface RouteError {
+  message: string;
+  // The router's own status for the pair, e.g. a Google status code or "ROUTE_NOT_FOUND"
+  code?: string;
+  // Set when the request itself failed with an HTTP error
+  httpStatus?: number;
+}
+
+export interface RoutedResult {
+  origin: string;
+  status: string;
+  error?: RouteError;
+}
+
+export interface DestinationFailure {
+  destinationId: string;
+  destinationName: string;
+  // Origins without a travel time, out of every origin routed to the destination
+  failedOrigins: number;
+  totalOrigins: number;
+  // Each distinct reason and how many origins it hit, most common first
+  reasons: Array<{ error: RouteError; count: number }>;
+}
+
+const UNKNOWN_ERROR: RouteError = { message: "Unknown error" };
+
+const reasonKey = ({ httpStatus, code, message }: RouteError) =>
+  `${httpStatus ?? ""}|${code ?? ""}|${message}`;
+
+/** Destinations with at least one failed origin, and why those origins failed */
+export const summarizeFailures = (
+  destinations: Array<{
+    destinationId: string;
+    destinationName: string;
+    results: RoutedResult[];
+  }>,
+): DestinationFailure[] =>
+  destinations.flatMap(({ destinationId, destinationName, results }) => {
+    const failed = results.filter((result) => result.status !== "OK");
+    if (failed.length === 0) return [];
+
+    const reasons = new Map<string, { error: RouteError; count: number }>();
+    failed.forEach((result) => {
+      const error = result.error ?? UNKNOWN_ERROR;
+      const reason = reasons.get(reasonKey(error));
+      if (reason) {
+        reason.count++;
+      } else {
+        reasons.set(reasonKey(error), { error, count: 1 });
+      }
+    });
+
+    return [
+      {
+        destinationId,
+        destinationName,
+        failedOrigins: failed.length,
+        totalOrigins: results.length,
+        reasons: [...reasons.values()].sort((a, b) => b.count - a.count),
+      },
+    ];
+  });
+
+/** A destination that failed before any of its origins came back */
+export const requestFailure = (
+  destinationId: string,
+  destinationName: string,
+  error: RouteError,
+  originCount: number,
+): DestinationFailure => ({
+  destinationId,
+  destinationName,
+  failedOrigins: originCount,
+  totalOrigins: originCount,
+  reasons: [{ error, count: originCount }],
+});
+
+/** One line describing a failure reason, e.g. "HTTP 503: Routes API error" */
+export const describeRouteError = ({ httpStatus, code, message }: RouteError) =>
+  [httpStatus && `HTTP ${httpStatus}`, code, message]
+    .filter(Boolean)
+    .join(": ");
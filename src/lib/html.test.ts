@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { escapeHtml } from "./html";
+import { decodeShareState, encodeShareState } from "./share-state";
+
+describe("escapeHtml", () => {
+  it("turns markup into plain text", () => {
+    expect(escapeHtml(`<img src=x onerror="alert('hi')">`)).toBe(
+      "&lt;img src=x onerror=&quot;alert(&#39;hi&#39;)&quot;&gt;",
+    );
+    expect(escapeHtml("Tom & Jerry's")).toBe("Tom &amp; Jerry&#39;s");
+  });
+
+  it("keeps a name from a shared link from becoming markup", () => {
+    const name = "<img src=x onerror=alert(document.cookie)>";
+    const defaults = {
+      regionId: "san-francisco",
+      destinations: [],
+      timePeriods: [],
+      routeModifiers: {},
+      originMode: "neighborhoods" as const,
+      gridSpacing: 1000,
+      gridShape: "hex" as const,
+      viewMode: "individual" as const,
+      selectedTime: "combined",
+      displayMode: "weekly" as const,
+      selectedDestination: "all",
+      viewport: null,
+    };
+    const shared = decodeShareState(
+      encodeShareState({
+        ...defaults,
+        destinations: [
+          {
+            id: "dest-1",
+            name,
+            address: "Somewhere",
+            lat: 37.7955,
+            lng: -122.3937,
+            rushTrips: 1,
+            offpeakTrips: 0,
+            travelMode: "DRIVE",
+          },
+        ],
+      }),
+      defaults,
+      ["san-francisco"],
+    );
+
+    const rendered = escapeHtml(shared!.destinations[0]!.name);
+    expect(rendered).not.toContain("<");
+    expect(rendered).toBe("&lt;img src=x onerror=alert(document.cookie)&gt;");
+  });
+});
@@ -0,0 +1,14 @@
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Text made safe to put in an HTML string, such as Leaflet's popups and tooltips. Names and
+ * addresses can come from a shared link, so they're never trusted as markup.
+ */
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]!);
@@ -0,0 +1,289 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  averagePeriods,
+  foldReturnLeg,
+  trafficDelayScores,
+  weeklyTrips,
+  weightedScores,
+  type DestinationTravelTimes,
+  type TravelTime,
+  type TripWeights,
+} from "./scoring";
+
+const ok = (
+  origin: string,
+  duration: number,
+  extra: Partial<TravelTime> = {},
+) => ({
+  origin,
+  duration,
+  distance: duration * 10,
+  status: "OK",
+  ...extra,
+});
+
+const failed = (origin: string) => ({
+  origin,
+  duration: 0,
+  distance: 0,
+  status: "FAILED",
+});
+
+const times = (
+  destinationId: string,
+  results: TravelTime[],
+): DestinationTravelTimes => ({ destinationId, results });
+
+const work: TripWeights = {
+  id: "work",
+  rushTrips: 5,
+  offpeakTrips: 0,
+  travelMode: "DRIVE",
+};
+const gym: TripWeights = {
+  id: "gym",
+  rushTrips: 0,
+  offpeakTrips: 3,
+  travelMode: "DRIVE",
+};
+const school: TripWeights = {
+  id: "school",
+  rushTrips: 2,
+  offpeakTrips: 2,
+  travelMode: "TRANSIT",
+};
+
+const byOrigin = (scores: TravelTime[]) =>
+  Object.fromEntries(scores.map((score) => [score.origin, score.duration]));
+
+describe("weeklyTrips", () => {
+  const destinations = [work, gym, school];
+
+  it("counts the trips of the selected time", () => {
+    expect(weeklyTrips(destinations, "travel-time", "rush")).toBe(7);
+    expect(weeklyTrips(destinations, "travel-time", "offpeak")).toBe(5);
+    expect(weeklyTrips(destinations, "travel-time", "combined")).toBe(12);
+  });
+
+  it("only counts the selected destination", () => {
+    expect(weeklyTrips(destinations, "travel-time", "combined", "school")).toBe(
+      4,
+    );
+  });
+
+  it("counts rush hour trips that sit in traffic for traffic delay", () => {
+    expect(weeklyTrips(destinations, "traffic-delay", "offpeak")).toBe(5);
+    expect(weeklyTrips(destinations, "traffic-delay", "rush", "school")).toBe(
+      0,
+    );
+  });
+});
+
+describe("weightedScores", () => {
+  it("weighs each destination by its trips", () => {
+    const scores = weightedScores(
+      [
+        {
+          kind: "rush",
+          destinations: [
+            times("work", [ok("a", 600), ok("b", 1200)]),
+            times("school", [ok("a", 1800), ok("b", 1200)]),
+          ],
+        },
+      ],
+      [work, school],
+    );
+    // (600 * 5 + 1800 * 2) / 7 and (1200 * 5 + 1200 * 2) / 7
+    expect(byOrigin(scores)).toEqual({ a: 6600 / 7, b: 1200 });
+  });
+
+  it("mixes rush hour and off-peak trips for combined", () => {
+    const scores = weightedScores(
+      [
+        { kind: "rush", destinations: [times("work", [ok("a", 900)])] },
+        { kind: "offpeak", destinations: [times("gym", [ok("a", 300)])] },
+      ],
+      [work, gym],
+    );
+    expect(byOrigin(scores)).toEqual({ a: (900 * 5 + 300 * 3) / 8 });
+  });
+
+  it("drops origins missing a weighted trip", () => {
+    const scores = weightedScores(
+      [
+        {
+          kind: "rush",
+          destinations: [
+            times("work", [ok("a", 600), ok("b", 600)]),
+            times("school", [ok("a", 1200), failed("b")]),
+          ],
+        },
+      ],
+      [work, school],
+    );
+    expect(Object.keys(byOrigin(scores))).toEqual(["a"]);
+  });
+
+  it("ignores destinations without trips at that time", () => {
+    const scores = weightedScores(
+      [
+        {
+          kind: "rush",
+          destinations: [
+            times("work", [ok("a", 600)]),
+            times("gym", [failed("a")]),
+          ],
+        },
+      ],
+      [work, gym],
+    );
+    expect(byOrigin(scores)).toEqual({ a: 600 });
+  });
+
+  it("shows a single destination at a single time as-is", () => {
+    const scores = weightedScores(
+      [{ kind: "rush", destinations: [times("gym", [ok("a", 420)])] }],
+      [work, gym],
+      "gym",
+    );
+    expect(byOrigin(scores)).toEqual({ a: 420 });
+  });
+
+  it("needs every period to have data", () => {
+    expect(
+      weightedScores(
+        [
+          { kind: "rush", destinations: [times("work", [ok("a", 600)])] },
+          { kind: "offpeak", destinations: [] },
+        ],
+        [work, gym],
+      ),
+    ).toEqual([]);
+  });
+
+  it("keeps the other fields of a result", () => {
+    const [score] = weightedScores(
+      [
+        {
+          kind: "rush",
+          destinations: [times("work", [ok("a", 600, { tollCost: 8 })])],
+        },
+      ],
+      [work],
+    );
+    expect(score).toMatchObject({ origin: "a", duration: 600, tollCost: 8 });
+  });
+});
+
+describe("trafficDelayScores", () => {
+  it("subtracts the average off-peak from the average rush hour time", () => {
+    const commute: TripWeights = { ...gym, id: "commute", rushTrips: 1 };
+    const scores = trafficDelayScores(
+      [
+        times("work", [ok("a", 1000), ok("b", 500)]),
+        times("commute", [ok("a", 2000), ok("b", 500)]),
+      ],
+      [
+        times("work", [ok("a", 800), ok("b", 600)]),
+        times("commute", [ok("a", 1200), ok("b", 600)]),
+      ],
+      [work, commute],
+    );
+    // Origin b is faster at rush hour, so it has no delay to show
+    expect(byOrigin(scores)).toEqual({ a: 1500 - 1000 });
+  });
+
+  it("skips destinations that don't sit in traffic", () => {
+    const scores = trafficDelayScores(
+      [times("work", [ok("a", 900)]), times("school", [ok("a", 5000)])],
+      [times("work", [ok("a", 600)]), times("school", [ok("a", 1000)])],
+      [work, school],
+    );
+    expect(byOrigin(scores)).toEqual({ a: 300 });
+  });
+
+  it("needs rush hour trips to a single selected destination", () => {
+    const rush = [times("gym", [ok("a", 900)])];
+    const offpeak = [times("gym", [ok("a", 600)])];
+    expect(trafficDelayScores(rush, offpeak, [gym], "gym")).toEqual([]);
+    expect(trafficDelayScores(rush, offpeak, [gym])).toHaveLength(1);
+  });
+});
+
+describe("averagePeriods", () => {
+  it("averages the OK results of each origin", () => {
+    const [averaged] = averagePeriods([
+      [times("work", [ok("a", 600, { tollCost: 2 }), ok("b", 600)])],
+      [times("work", [ok("a", 1000, { tollCost: 4 }), failed("b")])],
+    ]);
+    expect(averaged!.results).toEqual([
+      expect.objectContaining({ origin: "a", duration: 800, tollCost: 3 }),
+      expect.objectContaining({ origin: "b", duration: 600 }),
+    ]);
+  });
+
+  it("drops optional values some periods lack", () => {
+    const [averaged] = averagePeriods([
+      [times("work", [ok("a", 600, { tollCost: 2 })])],
+      [times("work", [ok("a", 600)])],
+    ]);
+    expect(averaged!.results[0]!.tollCost).toBeUndefined();
+  });
+
+  it("returns a single period unchanged", () => {
+    const period = [times("work", [ok("a", 600)])];
+    expect(averagePeriods([period])).toBe(period);
+    expect(averagePeriods([])).toEqual([]);
+  });
+});
+
+describe("foldReturnLeg", () => {
+  it("adds the way back", () => {
+    expect(
+      foldReturnLeg(ok("a", 600, { tollCost: 8, tollCurrency: "USD" }), {
+        duration: 700,
+        distance: 7000,
+        status: "OK",
+        tollCost: 0,
+      }),
+    ).toEqual({
+      origin: "a",
+      duration: 1300,
+      distance: 13000,
+      status: "OK",
+      tollCost: 8,
+      tollCurrency: "USD",
+    });
+  });
+
+  it("fails when either leg failed", () => {
+    const back = { duration: 0, distance: 0, status: "FAILED" };
+    expect(foldReturnLeg(ok("a", 600), back).status).toBe("FAILED");
+  });
+
+  it("counts a leg without traffic models on both bounds", () => {
+    const folded = foldReturnLeg(
+      ok("a", 600, { optimisticDuration: 500, pessimisticDuration: 900 }),
+      { duration: 700, distance: 7000, status: "OK" },
+    );
+    expect(folded).toMatchObject({
+      optimisticDuration: 1200,
+      pessimisticDuration: 1600,
+    });
+  });
+
+  it("leaves the toll unknown when one leg's is", () => {
+    const folded = foldReturnLeg(ok("a", 600, { tollCost: 8 }), {
+      duration: 700,
+      distance: 7000,
+      status: "OK",
+    });
+    expect(folded.tollCost).toBeUndefined();
+  });
+
+  it("returns one-way trips unchanged", () => {
+    const result = ok("a", 600);
+    expect(foldReturnLeg(result)).toBe(result);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Trip-weighted scoring of origins, shared by the map and the `traffic.scoreOrigins` procedure.
+ * Everything here is pure so it runs the same on either side.
+ */
+
+import { type RouteError } from "./failures";
+
+export type PeriodKind = "rush" | "offpeak";
+// "combined" weighs every trip to a destination, rush hour and off-peak alike
+export type TripKind = PeriodKind | "combined";
+export type ScoreView = "travel-time" | "traffic-delay";
+
+export interface TripWeights {
+  id: string;
+  rushTrips: number;
+  offpeakTrips: number;
+  travelMode: string;
+}
+
+export interface TravelTime {
+  origin: string;
+  duration: number;
+  distance: number;
+  status: string;
+  optimisticDuration?: number;
+  pessimisticDuration?: number;
+  tollCost?: number;
+  tollCurrency?: string;
+  // Only set on failed results
+  error?: RouteError;
+}
+
+export interface DestinationTravelTimes<T extends TravelTime = TravelTime> {
+  destinationId: string;
+  results: T[];
+}
+
+export interface PeriodTravelTimes<T extends TravelTime = TravelTime> {
+  kind: TripKind;
+  destinations: Array<DestinationTravelTimes<T>>;
+}
+
+/** Modes whose travel times depend on road traffic, so rush hour vs off-peak means something */
+export const isTrafficAware = (travelMode: string) =>
+  travelMode === "DRIVE" || travelMode === "TWO_WHEELER";
+
+export const tripWeight = (destination: TripWeights, kind: TripKind) =>
+  kind === "rush"
+    ? destination.rushTrips
+    : kind === "offpeak"
+      ? destination.offpeakTrips
+      : destination.rushTrips + destination.offpeakTrips;
+
+const isSelected = (destinationId: string, selectedDestination: string) =>
+  selectedDestination === "all" || destinationId === selectedDestination;
+
+/**
+ * Trips per week that a per-trip score stands for. Traffic delay only applies to rush hour trips
+ * in modes that sit in traffic.
+ */
+export const weeklyTrips = (
+  destinations: TripWeights[],
+  view: ScoreView,
+  kind: TripKind,
+  selectedDestination = "all",
+) =>
+  destinations
+    .filter((destination) => isSelected(destination.id, selectedDestination))
+    .reduce(
+      (sum, destination) =>
+        sum +
+        (view === "traffic-delay"
+          ? isTrafficAware(destination.travelMode)
+            ? destination.rushTrips
+            : 0
+          : tripWeight(destination, kind)),
+      0,
+    );
+
+const mean = (values: Array<number | undefined>) =>
+  values.every((value) => value !== undefined)
+    ? values.reduce<number>((sum, value) => sum + value, 0) / values.length
+    : undefined;
+
+/**
+ * Average several periods of the same kind into one result per destination and origin. Only OK
+ * results are averaged; optional values are kept only when every averaged result has them.
+ */
+export const averagePeriods = <D extends DestinationTravelTimes>(
+  datasets: D[][],
+): D[] => {
+  if (datasets.length <= 1) return datasets[0] ?? [];
+
+  return (datasets[0] ?? []).map((destData) => {
+    const matching = datasets.flatMap(
+      (dataset) =>
+        dataset.find((d) => d.destinationId === destData.destinationId) ?? [],
+    );
+
+    const results = destData.results.map((result) => {
+      const okResults = matching.flatMap(
+        (d) =>
+          d.results.find(
+            (r) => r.origin === result.origin && r.status === "OK",
+          ) ?? [],
+      );
+      if (okResults.length === 0) return result;
+
+      return {
+        ...result,
+        duration: mean(okResults.map((r) => r.duration))!,
+        distance: mean(okResults.map((r) => r.distance))!,
+        status: "OK",
+        error: undefined,
+        optimisticDuration: mean(okResults.map((r) => r.optimisticDuration)),
+        pessimisticDuration: mean(
+          okResults.map((r) => r.pessimisticDuration),
+        ),
+        tollCost: mean(okResults.map((r) => r.tollCost)),
+      };
+    });
+
+    return { ...destData, results };
+  });
+};
+
+/**
+ * Count the way back into a trip, so weekly totals include both legs. A leg without traffic models
+ * counts its best guess on both bounds, and tolls are only known when both legs know theirs.
+ */
+export const foldReturnLeg = <T extends TravelTime>(
+  result: T,
+  returnLeg?: Omit<TravelTime, "origin">,
+): T => {
+  if (!returnLeg) return result;
+  return {
+    ...result,
+    duration: result.duration + returnLeg.duration,
+    distance: result.distance + returnLeg.distance,
+    status:
+      result.status === "OK" && returnLeg.status === "OK" ? "OK" : "FAILED",
+    ...(result.optimisticDuration !== undefined ||
+    returnLeg.optimisticDuration !== undefined
+      ? {
+          optimisticDuration:
+            (result.optimisticDuration ?? result.duration) +
+            (returnLeg.optimisticDuration ?? returnLeg.duration),
+          pessimisticDuration:
+            (result.pessimisticDuration ?? result.duration) +
+            (returnLeg.pessimisticDuration ?? returnLeg.duration),
+        }
+      : {}),
+    // Some tolls are only charged one way
+    tollCost:
+      result.tollCost !== undefined && returnLeg.tollCost !== undefined
+        ? result.tollCost + returnLeg.tollCost
+        : undefined,
+    tollCurrency: result.tollCurrency ?? returnLeg.tollCurrency,
+    // The way there explains the failure when both legs failed
+    error: result.error ?? returnLeg.error,
+  };
+};
+
+/**
+ * Per-trip travel time of each origin, averaged over every trip the periods stand for and weighted
+ * by the destinations' trip counts. Destinations use different travel modes, so an origin is only
+ * scored once every weighted trip has a travel time. A single destination at a single time is
+ * shown as-is, even with zero trips. Each score keeps the other fields of one of its results.
+ */
+export const weightedScores = <T extends TravelTime>(
+  periods: Array<PeriodTravelTimes<T>>,
+  destinations: TripWeights[],
+  selectedDestination = "all",
+): T[] => {
+  // Mixing periods needs all of them
+  if (periods.some((period) => period.destinations.length === 0)) return [];
+
+  const asIs = selectedDestination !== "all" && periods.length === 1;
+  const totals = new Map<
+    string,
+    { template: T; totalTime: number; totalWeight: number }
+  >();
+  let expectedWeight = 0;
+
+  periods.forEach(({ kind, destinations: destinationTimes }) => {
+    destinationTimes.forEach((destData) => {
+      if (!isSelected(destData.destinationId, selectedDestination)) return;
+      const destination = destinations.find(
+        (d) => d.id === destData.destinationId,
+      );
+      if (!destination) return;
+
+      const weight = asIs ? 1 : tripWeight(destination, kind);
+      expectedWeight += weight;
+
+      destData.results.forEach((result) => {
+        if (result.status !== "OK") return;
+        const existing = totals.get(result.origin);
+        if (existing) {
+          existing.totalTime += result.duration * weight;
+          existing.totalWeight += weight;
+        } else {
+          totals.set(result.origin, {
+            template: result,
+            totalTime: result.duration * weight,
+            totalWeight: weight,
+          });
+        }
+      });
+    });
+  });
+
+  return [...totals.values()].flatMap(({ template, totalTime, totalWeight }) =>
+    totalWeight === 0 || totalWeight < expectedWeight
+      ? []
+      : [{ ...template, duration: totalTime / totalWeight }],
+  );
+};
+
+/**
+ * Per-trip time lost to traffic: the average rush hour minus the average off-peak travel time of
+ * the destinations that sit in traffic. A single destination needs rush hour trips to count. Only
+ * origins that are slower at rush hour are scored.
+ */
+export const trafficDelayScores = <T extends TravelTime>(
+  rush: Array<DestinationTravelTimes<T>>,
+  offpeak: Array<DestinationTravelTimes<T>>,
+  destinations: TripWeights[],
+  selectedDestination = "all",
+): T[] => {
+  if (rush.length === 0 || offpeak.length === 0) return [];
+
+  const counted = new Set(
+    destinations
+      .filter(
+        (destination) =>
+          isSelected(destination.id, selectedDestination) &&
+          isTrafficAware(destination.travelMode) &&
+          (selectedDestination === "all" || destination.rushTrips > 0),
+      )
+      .map((destination) => destination.id),
+  );
+
+  const times = new Map<
+    string,
+    { template?: T; rushTimes: number[]; offpeakTimes: number[] }
+  >();
+  [rush, offpeak].forEach((data, index) => {
+    const isRush = index === 0;
+    data.forEach((destData) => {
+      if (!counted.has(destData.destinationId)) return;
+      destData.results.forEach((result) => {
+        if (result.status !== "OK") return;
+        const entry = times.get(result.origin) ?? {
+          rushTimes: [],
+          offpeakTimes: [],
+        };
+        if (isRush) {
+          entry.template ??= result;
+          entry.rushTimes.push(result.duration);
+        } else {
+          entry.offpeakTimes.push(result.duration);
+        }
+        times.set(result.origin, entry);
+      });
+    });
+  });
+
+  return [...times.values()].flatMap(
+    ({ template, rushTimes, offpeakTimes }) => {
+      if (!template || offpeakTimes.length === 0) return [];
+      const delay = mean(rushTimes)! - mean(offpeakTimes)!;
+      return delay > 0 ? [{ ...template, duration: delay }] : [];
+    },
+  );
+};
@@ -0,0 +1,208 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  decodeShareState,
+  encodeShareState,
+  type ShareState,
+} from "./share-state";
+
+const state: ShareState = {
+  regionId: "san-francisco",
+  destinations: [
+    {
+      id: "dest-1",
+      name: "Work",
+      address: "1 Ferry Building, San Francisco, CA 94111, USA",
+      lat: 37.7955,
+      lng: -122.3937,
+      rushTrips: 5,
+      offpeakTrips: 0,
+      travelMode: "DRIVE",
+      returnDeparture: { weekday: 2, time: "18:00" },
+      routeModifiers: { avoidTolls: true, avoidFerries: true },
+    },
+    {
+      id: "dest-2",
+      name: "Climbing_gym * 50% off",
+      address: "Mission Cliffs",
+      lat: 37.76123456,
+      lng: -122.41234567,
+      rushTrips: 0,
+      offpeakTrips: 2,
+      travelMode: "BICYCLE",
+    },
+  ],
+  timePeriods: [
+    {
+      id: "rush",
+      name: "Rush Hour",
+      kind: "rush",
+      departure: { weekday: 2, time: "17:00" },
+    },
+    {
+      id: "period-2",
+      name: "Saturday_brunch * 2",
+      kind: "offpeak",
+      departure: { weekday: 6, time: "10:30", date: "2026-11-21" },
+    },
+  ],
+  routeModifiers: { avoidHighways: true },
+  originMode: "grid",
+  gridSpacing: 1500,
+  gridShape: "square",
+  viewMode: "comparison",
+  selectedTime: "rush",
+  displayMode: "per-trip",
+  selectedDestination: "dest-2",
+  viewport: { lat: 37.7749, lng: -122.4194, zoom: 13 },
+};
+
+const defaults: ShareState = {
+  regionId: "seattle",
+  destinations: [],
+  timePeriods: [
+    {
+      id: "rush",
+      name: "Rush Hour",
+      kind: "rush",
+      departure: { weekday: 2, time: "17:00" },
+    },
+    {
+      id: "offpeak",
+      name: "Off-Peak",
+      kind: "offpeak",
+      departure: { weekday: 2, time: "03:00" },
+    },
+  ],
+  routeModifiers: {},
+  originMode: "neighborhoods",
+  gridSpacing: 1000,
+  gridShape: "hex",
+  viewMode: "individual",
+  selectedTime: "combined",
+  displayMode: "weekly",
+  selectedDestination: "all",
+  viewport: null,
+};
+
+const regionIds = ["san-francisco", "seattle", "east-bay"];
+
+describe("encodeShareState", () => {
+  it("round-trips the state, with coordinates rounded to 5 decimals", () => {
+    const decoded = decodeShareState(
+      encodeShareState(state),
+      defaults,
+      regionIds,
+    );
+
+    expect(decoded).toEqual({
+      ...state,
+      destinations: [
+        state.destinations[0],
+        { ...state.destinations[1], lat: 37.76123, lng: -122.41235 },
+      ],
+    });
+  });
+
+  it("packs destinations into one short parameter", () => {
+    const params = new URLSearchParams(encodeShareState(state));
+
+    expect(params.get("d")).toBe(
+      "dest-1_Work_1 Ferry Building, San Francisco, CA 94111, USA_37.7955_-122.3937_5_0_d_21800_tf*" +
+        "dest-2_Climbing%5Fgym %2A 50%25 off_Mission Cliffs_37.76123_-122.41235_0_2_b",
+    );
+    expect(params.get("p")).toBe(
+      "rush_Rush Hour_r_21700*period-2_Saturday%5Fbrunch %2A 2_o_61030-20261121",
+    );
+    expect(params.get("a")).toBe("h");
+    expect(params.get("o")).toBe("1500_s");
+    expect(params.get("s")).toBe("1");
+    expect(params.get("c")).toBe("37.7749_-122.4194_13");
+  });
+
+  it("leaves out defaults", () => {
+    expect(encodeShareState({ ...defaults, regionId: "san-francisco" })).toBe(
+      "r=san-francisco&p=rush_Rush+Hour_r_21700*offpeak_Off-Peak_o_20300&v=individual&m=w",
+    );
+  });
+
+  it("keeps pinned return dates", () => {
+    const pinned = {
+      ...defaults,
+      destinations: [
+        {
+          ...state.destinations[0]!,
+          returnDeparture: { weekday: 5, time: "07:30", date: "2026-11-20" },
+        },
+      ],
+    };
+
+    expect(
+      decodeShareState(encodeShareState(pinned), defaults, regionIds)
+        ?.destinations[0]?.returnDeparture,
+    ).toEqual({ weekday: 5, time: "07:30", date: "2026-11-20" });
+  });
+});
+
+describe("decodeShareState", () => {
+  it("is null without shared state", () => {
+    expect(decodeShareState("", defaults, regionIds)).toBeNull();
+    expect(
+      decodeShareState("?utm_source=chat", defaults, regionIds),
+    ).toBeNull();
+  });
+
+  it("falls back for missing or unknown values", () => {
+    expect(
+      decodeShareState(
+        "?r=east-bay&v=sideways&m=x&s=4&c=1_2",
+        defaults,
+        regionIds,
+      ),
+    ).toEqual({ ...defaults, regionId: "east-bay" });
+  });
+
+  it("keeps the current periods and grid when the link's can't be read", () => {
+    const onGrid: ShareState = {
+      ...defaults,
+      originMode: "grid",
+      gridSpacing: 1500,
+      gridShape: "square",
+    };
+
+    expect(
+      decodeShareState(
+        "?r=seattle&p=x_Nowhere_q_21700*y_Bad_r_9&o=20_h",
+        onGrid,
+        regionIds,
+      ),
+    ).toMatchObject({
+      timePeriods: defaults.timePeriods,
+      originMode: "grid",
+      gridSpacing: 1500,
+      gridShape: "square",
+    });
+    // Left out means neighborhoods
+    expect(decodeShareState("?r=seattle", onGrid, regionIds)).toMatchObject({
+      originMode: "neighborhoods",
+    });
+  });
+
+  it("keeps the current region when the link's is unknown", () => {
+    expect(
+      decodeShareState("?r=atlantis&v=cost", defaults, regionIds),
+    ).toMatchObject({ regionId: "seattle", viewMode: "cost" });
+  });
+
+  it("drops destinations it can't read", () => {
+    const decoded = decodeShareState(
+      "?r=east-bay&d=a_A_Here_37.8_-122.2_1_1_d*b_B_There_north_-122.2_1_1_d*c_C_Bad%25_37.8_-122.2_1_1_d*d_D_Nowhere_37.8_-122.2_1_1_z",
+      defaults,
+      regionIds,
+    );
+
+    expect(decoded?.destinations.map((destination) => destination.id)).toEqual([
+      "a",
+    ]);
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * The map's setup as a compact query string, so a link reopens the same view. Destinations and
+ * time periods are packed into one parameter each rather than JSON: fields joined by "_", items
+ * by "*", neither of which URLSearchParams escapes.
+ */
+
+import { type PeriodKind } from "./scoring";
+
+export const VIEW_MODES = [
+  "individual",
+  "comparison",
+  "profile",
+  "reliability",
+  "cost",
+  "emissions",
+] as const;
+export type ViewMode = (typeof VIEW_MODES)[number];
+
+export type DisplayMode = "weekly" | "per-trip";
+
+export type OriginMode = "neighborhoods" | "grid";
+
+const GRID_SHAPE_CODES = { hex: "h", square: "s" } as const;
+export type GridShape = keyof typeof GRID_SHAPE_CODES;
+
+// What the server accepts for a generated grid
+const MIN_GRID_SPACING = 300;
+const MAX_GRID_SPACING = 5000;
+
+const PERIOD_KIND_CODES: Record<PeriodKind, string> = {
+  rush: "r",
+  offpeak: "o",
+};
+
+const TRAVEL_MODE_CODES = {
+  DRIVE: "d",
+  TRANSIT: "t",
+  BICYCLE: "b",
+  WALK: "w",
+  TWO_WHEELER: "m",
+} as const;
+export type SharedTravelMode = keyof typeof TRAVEL_MODE_CODES;
+
+const ROUTE_MODIFIER_CODES = {
+  avoidTolls: "t",
+  avoidHighways: "h",
+  avoidFerries: "f",
+} as const;
+export type SharedRouteModifiers = Partial<
+  Record<keyof typeof ROUTE_MODIFIER_CODES, boolean>
+>;
+
+export interface SharedDeparture {
+  weekday: number;
+  time: string;
+  date?: string;
+}
+
+export interface SharedTimePeriod {
+  id: string;
+  name: string;
+  kind: PeriodKind;
+  departure: SharedDeparture;
+}
+
+export interface SharedDestination {
+  id: string;
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  rushTrips: number;
+  offpeakTrips: number;
+  travelMode: SharedTravelMode;
+  returnDeparture?: SharedDeparture;
+  routeModifiers?: SharedRouteModifiers;
+}
+
+export interface Viewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+export interface ShareState {
+  regionId: string;
+  destinations: SharedDestination[];
+  timePeriods: SharedTimePeriod[];
+  // Applies to every destination that doesn't set its own
+  routeModifiers: SharedRouteModifiers;
+  originMode: OriginMode;
+  gridSpacing: number;
+  gridShape: GridShape;
+  viewMode: ViewMode;
+  selectedTime: string;
+  displayMode: DisplayMode;
+  // "all" or a destination id
+  selectedDestination: string;
+  viewport: Viewport | null;
+}
+
+// ~1m, well inside the travel time cache's rounding
+const COORDINATE_DECIMALS = 5;
+
+const round = (value: number, decimals: number) =>
+  String(Number(value.toFixed(decimals)));
+
+// Every "%" is escaped too, so decodeURIComponent undoes exactly this
+const FIELD_ESCAPES: Record<string, string> = {
+  "%": "%25",
+  _: "%5F",
+  "*": "%2A",
+};
+const escapeField = (value: string) =>
+  value.replace(/[%_*]/g, (char) => FIELD_ESCAPES[char]!);
+
+const encodeDeparture = ({ weekday, time, date }: SharedDeparture) =>
+  `${weekday}${time.replace(":", "")}${date ? `-${date.replace(/-/g, "")}` : ""}`;
+
+const decodeDeparture = (value: string): SharedDeparture | null => {
+  const match = /^([0-6])(\d{2})(\d{2})(?:-(\d{4})(\d{2})(\d{2}))?$/.exec(
+    value,
+  );
+  if (!match) return null;
+  const [, weekday, hours, minutes, year, month, day] = match;
+  return {
+    weekday: Number(weekday),
+    time: `${hours}:${minutes}`,
+    ...(year && { date: `${year}-${month}-${day}` }),
+  };
+};
+
+const encodeRouteModifiers = (modifiers: SharedRouteModifiers = {}) =>
+  Object.entries(ROUTE_MODIFIER_CODES)
+    .filter(([key]) => modifiers[key as keyof typeof ROUTE_MODIFIER_CODES])
+    .map(([, code]) => code)
+    .join("");
+
+const decodeRouteModifiers = (value: string): SharedRouteModifiers =>
+  Object.fromEntries(
+    Object.entries(ROUTE_MODIFIER_CODES)
+      .filter(([, code]) => value.includes(code))
+      .map(([key]) => [key, true]),
+  );
+
+const encodeDestination = (destination: SharedDestination) => {
+  const fields = [
+    escapeField(destination.id),
+    escapeField(destination.name),
+    escapeField(destination.address),
+    round(destination.lat, COORDINATE_DECIMALS),
+    round(destination.lng, COORDINATE_DECIMALS),
+    String(destination.rushTrips),
+    String(destination.offpeakTrips),
+    TRAVEL_MODE_CODES[destination.travelMode],
+    destination.returnDeparture
+      ? encodeDeparture(destination.returnDeparture)
+      : "",
+    encodeRouteModifiers(destination.routeModifiers),
+  ];
+  // Trailing empty fields are left off
+  while (fields.at(-1) === "") fields.pop();
+  return fields.join("_");
+};
+
+const decodeDestination = (value: string): SharedDestination | null => {
+  const [
+    id,
+    name,
+    address,
+    lat,
+    lng,
+    rushTrips,
+    offpeakTrips,
+    modeCode,
+    returnDeparture = "",
+    modifiers = "",
+  ] = value.split("_");
+  const travelMode = Object.entries(TRAVEL_MODE_CODES).find(
+    ([, code]) => code === modeCode,
+  )?.[0] as SharedTravelMode | undefined;
+  const numbers = [lat, lng, rushTrips, offpeakTrips].map(Number);
+  if (
+    !id ||
+    name === undefined ||
+    address === undefined ||
+    !travelMode ||
+    numbers.some((number) => !Number.isFinite(number))
+  ) {
+    return null;
+  }
+
+  const departure = returnDeparture ? decodeDeparture(returnDeparture) : null;
+  try {
+    return {
+      id: decodeURIComponent(id),
+      name: decodeURIComponent(name),
+      address: decodeURIComponent(address),
+      lat: numbers[0]!,
+      lng: numbers[1]!,
+      rushTrips: numbers[2]!,
+      offpeakTrips: numbers[3]!,
+      travelMode,
+      ...(departure && { returnDeparture: departure }),
+      ...(modifiers && { routeModifiers: decodeRouteModifiers(modifiers) }),
+    };
+  } catch {
+    // A hand-edited link with a stray "%"
+    return null;
+  }
+};
+
+const encodeTimePeriod = (period: SharedTimePeriod) =>
+  [
+    escapeField(period.id),
+    escapeField(period.name),
+    PERIOD_KIND_CODES[period.kind],
+    encodeDeparture(period.departure),
+  ].join("_");
+
+const decodeTimePeriod = (value: string): SharedTimePeriod | null => {
+  const [id, name, kindCode, departureValue = ""] = value.split("_");
+  const kind = (Object.keys(PERIOD_KIND_CODES) as PeriodKind[]).find(
+    (key) => PERIOD_KIND_CODES[key] === kindCode,
+  );
+  const departure = decodeDeparture(departureValue);
+  if (!id || name === undefined || !kind || !departure) return null;
+
+  try {
+    return {
+      id: decodeURIComponent(id),
+      name: decodeURIComponent(name),
+      kind,
+      departure,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const decodeGrid = (
+  value: string,
+): Pick<ShareState, "gridSpacing" | "gridShape"> | null => {
+  const [spacing, shapeCode] = value.split("_");
+  const gridSpacing = Number(spacing);
+  const gridShape = (Object.keys(GRID_SHAPE_CODES) as GridShape[]).find(
+    (key) => GRID_SHAPE_CODES[key] === shapeCode,
+  );
+  return Number.isInteger(gridSpacing) &&
+    gridSpacing >= MIN_GRID_SPACING &&
+    gridSpacing <= MAX_GRID_SPACING &&
+    gridShape
+    ? { gridSpacing, gridShape }
+    : null;
+};
+
+/** The state as a query string, without the leading "?" */
+export const encodeShareState = (state: ShareState) => {
+  const params = new URLSearchParams({ r: state.regionId });
+  if (state.destinations.length > 0) {
+    params.set("d", state.destinations.map(encodeDestination).join("*"));
+  }
+  params.set("p", state.timePeriods.map(encodeTimePeriod).join("*"));
+  const routeModifiers = encodeRouteModifiers(state.routeModifiers);
+  if (routeModifiers) params.set("a", routeModifiers);
+  if (state.originMode === "grid") {
+    params.set(
+      "o",
+      `${state.gridSpacing}_${GRID_SHAPE_CODES[state.gridShape]}`,
+    );
+  }
+  params.set("v", state.viewMode);
+  if (state.selectedTime !== "combined") params.set("t", state.selectedTime);
+  params.set("m", state.displayMode === "weekly" ? "w" : "p");
+  // By position, which is shorter than the id
+  const selectedIndex = state.destinations.findIndex(
+    (destination) => destination.id === state.selectedDestination,
+  );
+  if (selectedIndex !== -1) params.set("s", String(selectedIndex));
+  if (state.viewport) {
+    const { lat, lng, zoom } = state.viewport;
+    params.set(
+      "c",
+      [
+        round(lat, COORDINATE_DECIMALS),
+        round(lng, COORDINATE_DECIMALS),
+        round(zoom, 2),
+      ].join("_"),
+    );
+  }
+  return params.toString();
+};
+
+/**
+ * The state in a query string, or null when it has none. Left-out destinations, route modifiers,
+ * grid, selected period and selection mean the defaults `encodeShareState` omits; other missing
+ * or unknown values, a region not in `regionIds` included, keep theirs from `fallback`, and
+ * destinations and time periods that can't be read are dropped.
+ */
+export const decodeShareState = (
+  search: string,
+  fallback: ShareState,
+  regionIds: readonly string[],
+): ShareState | null => {
+  const params = new URLSearchParams(search);
+  if (!params.has("r")) return null;
+
+  const destinations = params.has("d")
+    ? params
+        .get("d")!
+        .split("*")
+        .flatMap((value) => decodeDestination(value) ?? [])
+    : [];
+  const timePeriods = (params.get("p") ?? "")
+    .split("*")
+    .flatMap((value) => decodeTimePeriod(value) ?? []);
+  const grid = params.has("o") ? decodeGrid(params.get("o")!) : null;
+  const regionId = params.get("r")!;
+  const viewMode = params.get("v");
+  const selected = destinations[Number(params.get("s") ?? NaN)];
+  const [lat, lng, zoom] = (params.get("c") ?? "").split("_").map(Number);
+  const hasViewport = [lat, lng, zoom].every(
+    (number) => number !== undefined && Number.isFinite(number),
+  );
+
+  return {
+    regionId: regionIds.includes(regionId) ? regionId : fallback.regionId,
+    destinations,
+    // A link always has at least one period, so none means it couldn't be read
+    timePeriods: timePeriods.length > 0 ? timePeriods : fallback.timePeriods,
+    routeModifiers: decodeRouteModifiers(params.get("a") ?? ""),
+    // Neighborhoods leave the grid out; a grid that can't be read keeps the current origins
+    ...(grid
+      ? { originMode: "grid", ...grid }
+      : {
+          originMode: params.has("o") ? fallback.originMode : "neighborhoods",
+          gridSpacing: fallback.gridSpacing,
+          gridShape: fallback.gridShape,
+        }),
+    viewMode: VIEW_MODES.includes(viewMode as ViewMode)
+      ? (viewMode as ViewMode)
+      : fallback.viewMode,
+    selectedTime: params.get("t") ?? "combined",
+    displayMode:
+      params.get("m") === "w"
+        ? "weekly"
+        : params.get("m") === "p"
+          ? "per-trip"
+          : fallback.displayMode,
+    selectedDestination: selected?.id ?? "all",
+    viewport: hasViewport
+      ? { lat: lat!, lng: lng!, zoom: zoom! }
+      : fallback.viewport,
+  };
+};
@@ -0,0 +1,242 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+// Type-only, so the router isn't loaded before the env is set up
+import type { createCaller } from "~/server/api/root";
+import type {
+  createScenarioStore,
+  getScenarioStore,
+} from "~/server/db/scenarios";
+
+type Caller = ReturnType<typeof createCaller>;
+
+let dataDir: string;
+let dbPath: string;
+let caller: Caller;
+let createStore: typeof createScenarioStore;
+let getStore: typeof getScenarioStore;
+
+const state = {
+  regionId: "san-francisco",
+  destinations: [
+    {
+      id: "work",
+      name: "Work",
+      address: "1 Ferry Building, San Francisco, CA 94111, USA",
+      lat: 37.7955,
+      lng: -122.3937,
+      rushTrips: 5,
+      offpeakTrips: 2,
+      travelMode: "TRANSIT" as const,
+    },
+  ],
+  timePeriods: [
+    {
+      id: "rush",
+      name: "Rush Hour",
+      kind: "rush" as const,
+      departure: { weekday: 2, time: "17:00" },
+    },
+  ],
+  view: {
+    viewMode: "cost" as const,
+    selectedTime: "rush",
+    selectedDestination: "all",
+    displayMode: "per-trip" as const,
+    routeModifiers: { avoidTolls: true },
+    originMode: "grid" as const,
+    gridSpacing: 1500,
+    gridShape: "square" as const,
+    vehicleType: "electric" as const,
+    costSettings: {
+      fuelType: "electric" as const,
+      energyPrice: 0.35,
+      efficiency: 3.5,
+      includeTolls: true,
+      valueOfTimePerHour: 30,
+      parking: { work: 12 },
+    },
+  },
+  travelData: {
+    periodData: {
+      rush: [
+        {
+          destinationId: "work",
+          destinationName: "Work",
+          destinationAddress: "1 Ferry Building, San Francisco, CA 94111, USA",
+          results: [
+            {
+              origin: "mission",
+              neighborhood: "Mission",
+              lat: 37.7599,
+              lng: -122.4148,
+              duration: 1320,
+              distance: 5400,
+              status: "OK",
+            },
+          ],
+        },
+      ],
+    },
+    requestFailures: {},
+  },
+};
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), "scenario-test-"));
+  dbPath = join(dataDir, "scenarios.json");
+
+  // The env is read once on import, so it has to be in place before the router loads
+  process.env.SCENARIO_DB_PATH = dbPath;
+  const root = await import("~/server/api/root");
+  caller = root.createCaller({ headers: new Headers() });
+  ({ createScenarioStore: createStore, getScenarioStore: getStore } =
+    await import("~/server/db/scenarios"));
+});
+
+afterAll(async () => {
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+describe("scenario router", () => {
+  it("creates, reads, updates and deletes a scenario", async () => {
+    const created = await caller.scenario.create({ name: " Commute ", state });
+    expect(created).toMatchObject({ name: "Commute", state });
+
+    await expect(caller.scenario.get({ id: created.id })).resolves.toEqual(
+      created,
+    );
+
+    const renamed = await caller.scenario.update({
+      id: created.id,
+      name: "Commute by train",
+    });
+    expect(renamed).toMatchObject({ name: "Commute by train", state });
+    expect(renamed.updatedAt).toBeGreaterThanOrEqual(created.updatedAt);
+
+    const moved = await caller.scenario.update({
+      id: created.id,
+      state: { ...state, travelData: null },
+    });
+    expect(moved.state.travelData).toBeNull();
+
+    await caller.scenario.delete({ id: created.id });
+    await expect(caller.scenario.get({ id: created.id })).rejects.toThrow(
+      `No scenario "${created.id}"`,
+    );
+  });
+
+  it("duplicates a scenario under a new id", async () => {
+    const original = await caller.scenario.create({ name: "Original", state });
+    const copy = await caller.scenario.duplicate({ id: original.id });
+
+    expect(copy.id).not.toBe(original.id);
+    expect(copy).toMatchObject({ name: "Original (copy)", state });
+    await expect(
+      caller.scenario.duplicate({ id: original.id, name: "Variant" }),
+    ).resolves.toMatchObject({ name: "Variant" });
+  });
+
+  it("lists summaries, most recently updated first", async () => {
+    const older = await caller.scenario.create({ name: "Older", state });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const newer = await caller.scenario.create({
+      name: "Newer",
+      state: { ...state, destinations: [], travelData: null },
+    });
+
+    const list = await caller.scenario.list();
+    const ids = list.map((scenario) => scenario.id);
+    expect(ids.indexOf(newer.id)).toBeLessThan(ids.indexOf(older.id));
+    expect(list.find((scenario) => scenario.id === newer.id)).toEqual({
+      id: newer.id,
+      name: "Newer",
+      createdAt: newer.createdAt,
+      updatedAt: newer.updatedAt,
+      regionId: "san-francisco",
+      destinationCount: 0,
+      hasTravelData: false,
+    });
+  });
+
+  it("keeps scenarios in the database file", async () => {
+    const { id } = await caller.scenario.create({ name: "Saved", state });
+
+    // A fresh store, as after a restart
+    await expect(createStore(dbPath).get(id)).resolves.toMatchObject({
+      name: "Saved",
+      state,
+    });
+  });
+
+  it("rejects unknown ids and invalid state", async () => {
+    await expect(
+      caller.scenario.update({ id: "missing", name: "Nope" }),
+    ).rejects.toThrow('No scenario "missing"');
+    await expect(caller.scenario.delete({ id: "missing" })).rejects.toThrow(
+      'No scenario "missing"',
+    );
+    await expect(
+      caller.scenario.create({
+        name: "No periods",
+        state: { ...state, timePeriods: [] },
+      }),
+    ).rejects.toThrow();
+    await expect(
+      caller.scenario.create({ name: " ", state }),
+    ).rejects.toThrow();
+  });
+
+  it("drops saved travel data that no longer fits", async () => {
+    // Written past the router, as an older version or a hand edit could have left it
+    const { id } = await getStore().create("Old", {
+      ...state,
+      travelData: {
+        periodData: { rush: [{ destinationId: "work" }] },
+        requestFailures: {},
+      },
+    });
+
+    const scenario = await caller.scenario.get({ id });
+    expect(scenario.state.travelData).toBeNull();
+    expect(scenario.state.destinations).toEqual(state.destinations);
+  });
+
+  it("leaves scenarios it can't read out of the list", async () => {
+    const { id } = await getStore().create("Broken", {
+      ...state,
+      timePeriods: "rush hour",
+    });
+    const readable = await caller.scenario.create({ name: "Readable", state });
+
+    const ids = (await caller.scenario.list()).map((scenario) => scenario.id);
+    expect(ids).toContain(readable.id);
+    expect(ids).not.toContain(id);
+  });
+
+  it("reads the file once when the first requests arrive together", async () => {
+    const path = join(dataDir, "concurrent.json");
+    const { id: savedId } = await createStore(path).create("Saved", state);
+
+    // A second read finishing after the create would drop the new scenario
+    const store = createStore(path);
+    const [created] = await Promise.all([
+      store.create("New", state),
+      store.list(),
+    ]);
+
+    const ids = (await store.list()).map(({ id }) => id);
+    expect(ids).toEqual(expect.arrayContaining([savedId, created.id]));
+  });
+
+  it("refuses to touch a database file it can't read", async () => {
+    const brokenPath = join(dataDir, "broken.json");
+    await writeFile(brokenPath, "{ not json");
+
+    const store = createStore(brokenPath);
+    await expect(store.create("Lost", state)).rejects.toThrow();
+    await expect(readFile(brokenPath, "utf8")).resolves.toBe("{ not json");
+  });
+});
@@ -0,0 +1,199 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { VIEW_MODES } from "~/lib/share-state";
+import { destinationSchema, routeModifiersSchema } from "~/server/api/schemas";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { getScenarioStore, type StoredScenario } from "~/server/db/scenarios";
+import { departureSpecSchema } from "~/server/routing/departure";
+
+const scenarioDestinationSchema = destinationSchema.extend({
+  rushTrips: z.number().int().nonnegative(),
+  offpeakTrips: z.number().int().nonnegative(),
+});
+
+const candidateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  address: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+});
+
+const timePeriodSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: z.enum(["rush", "offpeak"]),
+  departure: departureSpecSchema,
+});
+
+const viewSettingsSchema = z.object({
+  viewMode: z.enum(VIEW_MODES),
+  selectedTime: z.string(),
+  selectedDestination: z.string(),
+  displayMode: z.enum(["weekly", "per-trip"]),
+  routeModifiers: routeModifiersSchema,
+  originMode: z.enum(["neighborhoods", "grid"]),
+  gridSpacing: z.number(),
+  gridShape: z.enum(["hex", "square"]),
+  vehicleType: z.enum(["gas", "hybrid", "electric"]),
+  costSettings: z.object({
+    fuelType: z.enum(["gas", "electric"]),
+    energyPrice: z.number(),
+    efficiency: z.number(),
+    includeTolls: z.boolean(),
+    valueOfTimePerHour: z.number(),
+    parking: z.record(z.string(), z.number()),
+  }),
+});
+
+const routeErrorSchema = z.object({
+  message: z.string(),
+  code: z.string().optional(),
+  httpStatus: z.number().optional(),
+});
+
+// Travel times as the map loaded them, one destination at one time period
+const destinationTravelTimesSchema = z.object({
+  destinationId: z.string(),
+  destinationName: z.string(),
+  destinationAddress: z.string(),
+  results: z.array(
+    z.object({
+      origin: z.string(),
+      neighborhood: z.string(),
+      address: z.string().optional(),
+      lat: z.number(),
+      lng: z.number(),
+      duration: z.number(),
+      distance: z.number(),
+      status: z.string(),
+      optimisticDuration: z.number().optional(),
+      pessimisticDuration: z.number().optional(),
+      tollCost: z.number().optional(),
+      tollCurrency: z.string().optional(),
+      error: routeErrorSchema.optional(),
+    }),
+  ),
+});
+
+const destinationFailureSchema = z.object({
+  destinationId: z.string(),
+  destinationName: z.string(),
+  failedOrigins: z.number(),
+  totalOrigins: z.number(),
+  reasons: z.array(z.object({ error: routeErrorSchema, count: z.number() })),
+});
+
+// By time period id
+const travelDataSchema = z.object({
+  periodData: z.record(z.string(), z.array(destinationTravelTimesSchema)),
+  requestFailures: z.record(z.string(), z.array(destinationFailureSchema)),
+});
+
+/** Everything the map needs to reopen a setup, including the travel times loaded so far */
+const scenarioStateSchema = z.object({
+  regionId: z.string(),
+  destinations: z.array(scenarioDestinationSchema),
+  candidates: z.array(candidateSchema).default([]),
+  timePeriods: z.array(timePeriodSchema).min(1),
+  view: viewSettingsSchema,
+  travelData: travelDataSchema.nullable().default(null),
+});
+
+const scenarioNameSchema = z.string().trim().min(1).max(100);
+
+const notFound = (id: string) =>
+  new TRPCError({ code: "NOT_FOUND", message: `No scenario "${id}"` });
+
+// Travel data that no longer fits, e.g. saved by an older version or edited by hand, is
+// dropped so the scenario still opens and the map routes again
+const storedStateSchema = scenarioStateSchema.extend({
+  travelData: travelDataSchema.nullable().catch(null),
+});
+
+// Stored state went through the schema on the way in, so this mostly fills in newer defaults
+const toScenario = ({ state, ...scenario }: StoredScenario) => ({
+  ...scenario,
+  state: storedStateSchema.parse(state),
+});
+
+export const scenarioRouter = createTRPCRouter({
+  // Summaries for the picker, without the state
+  list: publicProcedure.query(async () => {
+    const scenarios = await getScenarioStore().list();
+    // One scenario that can't be read shouldn't hide the rest
+    return scenarios.flatMap(({ state: storedState, ...summary }) => {
+      const parsed = storedStateSchema.safeParse(storedState);
+      if (!parsed.success) {
+        console.error(
+          `Skipping unreadable scenario "${summary.id}":`,
+          parsed.error.message,
+        );
+        return [];
+      }
+      const state = parsed.data;
+      return [
+        {
+          ...summary,
+          regionId: state.regionId,
+          destinationCount: state.destinations.length,
+          hasTravelData: state.travelData !== null,
+        },
+      ];
+    });
+  }),
+
+  get: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input }) => {
+      const scenario = await getScenarioStore().get(input.id);
+      if (!scenario) throw notFound(input.id);
+      return toScenario(scenario);
+    }),
+
+  create: publicProcedure
+    .input(z.object({ name: scenarioNameSchema, state: scenarioStateSchema }))
+    .mutation(async ({ input }) =>
+      toScenario(await getScenarioStore().create(input.name, input.state)),
+    ),
+
+  update: publicProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        name: scenarioNameSchema.optional(),
+        state: scenarioStateSchema.optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const { id, ...changes } = input;
+      const scenario = await getScenarioStore().update(id, changes);
+      if (!scenario) throw notFound(id);
+      return toScenario(scenario);
+    }),
+
+  delete: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input }) => {
+      if (!(await getScenarioStore().remove(input.id))) {
+        throw notFound(input.id);
+      }
+      return { id: input.id };
+    }),
+
+  // A copy to try changes on, named "<name> (copy)" unless given a name
+  duplicate: publicProcedure
+    .input(z.object({ id: z.string(), name: scenarioNameSchema.optional() }))
+    .mutation(async ({ input }) => {
+      const store = getScenarioStore();
+      const original = await store.get(input.id);
+      if (!original) throw notFound(input.id);
+      return toScenario(
+        await store.create(
+          input.name ?? `${original.name} (copy)`,
+          original.state,
+        ),
+      );
+    }),
+});
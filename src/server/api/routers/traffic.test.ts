@@ -0,0 +1,541 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+// Type-only, so the router isn't loaded before the env is set up
+import type { createCaller } from "~/server/api/root";
+import {
+  startGoogleMockServer,
+  type GoogleMockServer,
+} from "~/server/mock/google-server";
+
+type Caller = ReturnType<typeof createCaller>;
+
+const FIXTURE_DIR = join(import.meta.dirname, "../../mock/fixtures");
+
+const mission = {
+  id: "mission",
+  name: "Mission",
+  lat: 37.7599,
+  lng: -122.4148,
+};
+const sunset = { id: "sunset", name: "Sunset", lat: 37.7534, lng: -122.4944 };
+const origins = [mission, sunset];
+
+const oakland = {
+  id: "oakland",
+  name: "Oakland",
+  address: "Oakland, CA",
+  lat: 37.8044,
+  lng: -122.2712,
+};
+const paloAlto = {
+  id: "palo-alto",
+  name: "Palo Alto",
+  address: "Palo Alto, CA",
+  lat: 37.4419,
+  lng: -122.143,
+};
+// The mock answers these with a 503 and an empty body
+const civicCenter = {
+  id: "civic-center",
+  name: "Civic Center",
+  address: "Civic Center, San Francisco, CA",
+  lat: 37.7793,
+  lng: -122.4193,
+};
+const berkeley = {
+  id: "berkeley",
+  name: "Berkeley",
+  address: "Berkeley, CA",
+  lat: 37.8716,
+  lng: -122.2727,
+};
+
+let server: GoogleMockServer;
+let cacheDir: string;
+let caller: Caller;
+
+// Each test departs at its own time so the travel time cache never answers for another test
+let minute = 0;
+const nextDeparture = () => {
+  minute += 15;
+  const time = `${String(8 + Math.floor(minute / 60)).padStart(2, "0")}:${String(minute % 60).padStart(2, "0")}`;
+  return { weekday: 2, time };
+};
+
+const routeRequests = () =>
+  server.requests.filter((request) =>
+    request.path.includes("computeRouteMatrix"),
+  );
+
+beforeAll(async () => {
+  server = await startGoogleMockServer(FIXTURE_DIR);
+  cacheDir = await mkdtemp(join(tmpdir(), "traffic-test-"));
+
+  // The env is read once on import, so it has to be in place before the router loads
+  Object.assign(process.env, {
+    ROUTING_PROVIDER: "google",
+    GOOGLE_MAPS_API_KEY: "test-key",
+    GOOGLE_API_BASE_URL: server.url,
+    TRAVEL_CACHE_PATH: join(cacheDir, "travel-times.json"),
+    ROUTING_MAX_RETRIES: "0",
+    ROUTING_REQUESTS_PER_SECOND: "1000",
+  });
+  const root = await import("~/server/api/root");
+  caller = root.createCaller({ headers: new Headers() });
+});
+
+afterAll(async () => {
+  await server.close();
+  await rm(cacheDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  server.requests.length = 0;
+});
+
+describe("getTravelTimesMultiDestination", () => {
+  it("returns travel times and tolls for every origin", async () => {
+    const response = await caller.traffic.getTravelTimesMultiDestination({
+      origins,
+      destinations: [oakland],
+      departure: nextDeparture(),
+    });
+
+    expect(response.destinations).toHaveLength(1);
+    expect(response.destinations[0]!.results).toEqual([
+      expect.objectContaining({
+        origin: "mission",
+        status: "OK",
+        duration: 1500,
+        distance: 16000,
+        tollCost: 8,
+        tollCurrency: "USD",
+      }),
+      expect.objectContaining({
+        origin: "sunset",
+        status: "OK",
+        duration: 2100,
+        tollCost: 0,
+      }),
+    ]);
+    expect(response.cache).toEqual({ hits: 0, misses: 2 });
+  });
+
+  it("sends the API key, field mask, coordinates and route modifiers", async () => {
+    await caller.traffic.getTravelTimesMultiDestination({
+      origins,
+      destinations: [oakland],
+      departure: nextDeparture(),
+      routeModifiers: { avoidTolls: true },
+    });
+
+    const [request] = routeRequests();
+    expect(request!.headers["x-goog-api-key"]).toBe("test-key");
+    expect(request!.headers["x-goog-fieldmask"]).toContain(
+      "travelAdvisory.tollInfo",
+    );
+    expect(request!.body).toMatchObject({
+      travelMode: "DRIVE",
+      routingPreference: "TRAFFIC_AWARE",
+      routeModifiers: { avoidTolls: true },
+      extraComputations: ["TOLLS"],
+      origins: [
+        {
+          waypoint: {
+            location: {
+              latLng: { latitude: mission.lat, longitude: mission.lng },
+            },
+          },
+        },
+        expect.anything(),
+      ],
+    });
+  });
+
+  it("keeps the origins that worked when others fail", async () => {
+    const response = await caller.traffic.getTravelTimesMultiDestination({
+      origins,
+      destinations: [paloAlto],
+      departure: nextDeparture(),
+    });
+
+    const [destination] = response.destinations;
+    expect(
+      destination!.results.map(({ origin, status }) => [origin, status]),
+    ).toEqual([
+      ["mission", "OK"],
+      ["sunset", "FAILED"],
+    ]);
+  });
+
+  it("fails trips without a route", async () => {
+    const response = await caller.traffic.getTravelTimesMultiDestination({
+      origins,
+      destinations: [{ ...oakland, travelMode: "TRANSIT" }],
+      departure: nextDeparture(),
+    });
+
+    expect(response.destinations[0]!.results).toEqual([
+      expect.objectContaining({ origin: "mission", status: "FAILED" }),
+      expect.objectContaining({
+        origin: "sunset",
+        status: "OK",
+        duration: 3000,
+      }),
+    ]);
+  });
+
+  it("serves repeated requests from the cache, except failures", async () => {
+    const input = {
+      origins,
+      destinations: [paloAlto],
+      departure: nextDeparture(),
+    };
+    await caller.traffic.getTravelTimesMultiDestination(input);
+    const response = await caller.traffic.getTravelTimesMultiDestination(input);
+
+    expect(response.cache).toEqual({ hits: 1, misses: 1 });
+    // Only the failed origin is asked for again
+    const retried = routeRequests()[1]!.body as { origins: unknown[] };
+    expect(retried.origins).toHaveLength(1);
+  });
+
+  it("routes the way back at the return departure", async () => {
+    const response = await caller.traffic.getTravelTimesMultiDestination({
+      origins,
+      destinations: [{ ...oakland, returnDeparture: nextDeparture() }],
+      departure: nextDeparture(),
+    });
+
+    expect(response.destinations[0]!.results).toEqual([
+      expect.objectContaining({
+        origin: "mission",
+        returnLeg: expect.objectContaining({
+          status: "OK",
+          duration: 1800,
+        }) as unknown,
+      }),
+      expect.objectContaining({
+        origin: "sunset",
+        returnLeg: expect.objectContaining({
+          status: "OK",
+          duration: 2400,
+        }) as unknown,
+      }),
+    ]);
+  });
+
+  it("fails every pair of a failed matrix request with its HTTP status", async () => {
+    const response = await caller.traffic.getTravelTimesMultiDestination({
+      origins,
+      destinations: [oakland, civicCenter],
+      departure: nextDeparture(),
+    });
+
+    // Both destinations share the request the server turned down
+    const results = response.destinations.flatMap((d) => d.results);
+    expect(results).toHaveLength(4);
+    results.forEach((result) => {
+      expect(result.status).toBe("FAILED");
+      expect(result.error).toMatchObject({ httpStatus: 503 });
+    });
+    expect(response.failures).toEqual([
+      expect.objectContaining({
+        destinationId: "oakland",
+        failedOrigins: 2,
+        totalOrigins: 2,
+      }),
+      expect.objectContaining({
+        destinationId: "civic-center",
+        failedOrigins: 2,
+        totalOrigins: 2,
+      }),
+    ]);
+  });
+
+  it("reports each failed element's status code and message", async () => {
+    const response = await caller.traffic.getTravelTimesMultiDestination({
+      origins,
+      destinations: [paloAlto, { ...oakland, travelMode: "TRANSIT" }],
+      departure: nextDeparture(),
+    });
+
+    expect(response.failures).toEqual([
+      {
+        destinationId: "palo-alto",
+        destinationName: "Palo Alto",
+        failedOrigins: 1,
+        totalOrigins: 2,
+        reasons: [
+          { error: { code: "3", message: "Origin is not routable" }, count: 1 },
+        ],
+      },
+      {
+        destinationId: "oakland",
+        destinationName: "Oakland",
+        failedOrigins: 1,
+        totalOrigins: 2,
+        reasons: [
+          {
+            error: { code: "ROUTE_NOT_FOUND", message: "No route found" },
+            count: 1,
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("streamTravelTimes", () => {
+  it("streams each destination and reports the ones that failed", async () => {
+    const rush = {
+      id: "rush",
+      kind: "rush" as const,
+      departure: nextDeparture(),
+    };
+    const stream = await caller.traffic.streamTravelTimes({
+      origins,
+      destinations: [oakland, civicCenter, berkeley],
+      periods: [rush],
+    });
+
+    const events = [];
+    for await (const event of stream) events.push(event);
+
+    expect(events[0]).toEqual({ type: "start", total: 3 });
+    expect(events.at(-1)).toMatchObject({ type: "done" });
+    const errors = Object.fromEntries(
+      events.flatMap((event) =>
+        event.type === "destination"
+          ? [
+              [
+                event.destination.destinationId,
+                event.destination.results.map((result) => result.error),
+              ],
+            ]
+          : [],
+      ),
+    );
+    expect(errors).toEqual({
+      oakland: [undefined, undefined],
+      "civic-center": [
+        expect.objectContaining({ httpStatus: 503 }),
+        expect.objectContaining({ httpStatus: 503 }),
+      ],
+      berkeley: [
+        { message: "Empty response from Routes API" },
+        { message: "Empty response from Routes API" },
+      ],
+    });
+  });
+});
+
+describe("scoreOrigins", () => {
+  it("ranks origins by their trip-weighted travel time", async () => {
+    const response = await caller.traffic.scoreOrigins({
+      origins,
+      destinations: [
+        { ...oakland, rushTrips: 5, offpeakTrips: 0 },
+        { ...paloAlto, rushTrips: 1, offpeakTrips: 0 },
+      ],
+      periods: [{ id: "rush", kind: "rush", departure: nextDeparture() }],
+      selectedTime: "rush",
+    });
+
+    // Sunset can't reach Palo Alto, so only the Mission has every trip
+    expect(response.scores).toEqual([
+      expect.objectContaining({
+        origin: "mission",
+        perTrip: (1500 * 5 + 2700) / 6,
+        weekly: 1500 * 5 + 2700,
+      }),
+    ]);
+    expect(response.weeklyTrips).toBe(6);
+  });
+
+  it("needs a period of every kind it scores", async () => {
+    await expect(
+      caller.traffic.scoreOrigins({
+        origins,
+        destinations: [oakland],
+        periods: [{ id: "rush", kind: "rush", departure: nextDeparture() }],
+      }),
+    ).rejects.toThrow("Scoring needs at least one offpeak period");
+  });
+});
+
+describe("geocodeAddress", () => {
+  it("returns the first match, biased towards the region", async () => {
+    const result = await caller.traffic.geocodeAddress({
+      regionId: "san-francisco",
+      address: "1 Ferry Building, San Francisco",
+    });
+
+    expect(result).toEqual({
+      lat: 37.7955,
+      lng: -122.3937,
+      formatted_address: "1 Ferry Building, San Francisco, CA 94111, USA",
+    });
+    const [request] = server.requests;
+    expect(request!.query.get("key")).toBe("test-key");
+    expect(request!.query.get("bounds")).toMatch(
+      /^37\.\d+,-122\.\d+\|37\.\d+,-122\.\d+$/,
+    );
+  });
+
+  it("prefers a match inside the region over Google's first", async () => {
+    const result = await caller.traffic.geocodeAddress({
+      regionId: "san-francisco",
+      address: "Downtown",
+    });
+
+    expect(result.formatted_address).toBe("Downtown, San Francisco, CA, USA");
+  });
+
+  it.each([
+    ["Somewhere unknown", "Geocoding failed: ZERO_RESULTS"],
+    ["Overloaded", "Geocoding failed: OVER_QUERY_LIMIT"],
+    ["Empty", "Failed to geocode address"],
+  ])("fails for %s", async (address, message) => {
+    await expect(
+      caller.traffic.geocodeAddress({ regionId: "san-francisco", address }),
+    ).rejects.toThrow(message);
+  });
+
+  it("rejects unknown regions", async () => {
+    await expect(
+      caller.traffic.geocodeAddress({ regionId: "atlantis", address: "Empty" }),
+    ).rejects.toThrow('Unknown region "atlantis"');
+    expect(server.requests).toHaveLength(0);
+  });
+});
+
+describe("suggestAddresses", () => {
+  it("ranks matches in the region first, then full matches", async () => {
+    const { suggestions } = await caller.traffic.suggestAddresses({
+      regionId: "san-francisco",
+      query: "Downtown",
+    });
+
+    expect(
+      suggestions.map(({ placeId, inRegion, partialMatch }) => ({
+        placeId,
+        inRegion,
+        partialMatch,
+      })),
+    ).toEqual([
+      { placeId: "sf-downtown", inRegion: true, partialMatch: false },
+      {
+        placeId: "sf-financial-district",
+        inRegion: true,
+        partialMatch: true,
+      },
+      { placeId: "downtown-oakland", inRegion: false, partialMatch: false },
+    ]);
+  });
+
+  it("follows the selected region", async () => {
+    const { suggestions } = await caller.traffic.suggestAddresses({
+      regionId: "east-bay",
+      query: "University Ave",
+      limit: 1,
+    });
+
+    expect(suggestions).toEqual([
+      expect.objectContaining({
+        formattedAddress: "University Ave, Berkeley, CA, USA",
+        lat: 37.8719,
+        lng: -122.2685,
+      }),
+    ]);
+  });
+
+  it("returns nothing for unknown or too short queries", async () => {
+    await expect(
+      caller.traffic.suggestAddresses({ query: "Nowhere at all" }),
+    ).resolves.toMatchObject({ suggestions: [] });
+    await expect(
+      caller.traffic.suggestAddresses({ query: " Do " }),
+    ).resolves.toEqual({ query: "Do", suggestions: [] });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it("fails when the Geocoding API does", async () => {
+    await expect(
+      caller.traffic.suggestAddresses({ query: "Overloaded" }),
+    ).rejects.toThrow(
+      "Failed to suggest addresses: Geocoding failed: OVER_QUERY_LIMIT",
+    );
+  });
+});
+
+describe("reverseGeocode", () => {
+  it("names the most specific address at the point and keeps the point", async () => {
+    await expect(
+      caller.traffic.reverseGeocode({ lat: 37.79553, lng: -122.39371 }),
+    ).resolves.toEqual({
+      lat: 37.79553,
+      lng: -122.39371,
+      address: "1 Ferry Building, San Francisco, CA 94111, USA",
+      inRegion: true,
+    });
+    expect(server.requests[0]!.query.get("latlng")).toBe("37.79553,-122.39371");
+  });
+
+  it("has no address where Google has none", async () => {
+    await expect(
+      caller.traffic.reverseGeocode({ lat: 37.7, lng: -122.6 }),
+    ).resolves.toEqual({
+      lat: 37.7,
+      lng: -122.6,
+      address: null,
+      inRegion: false,
+    });
+  });
+});
+
+describe("generateOriginGrid", () => {
+  it("covers the region at the smallest spacing", async () => {
+    const origins = await caller.traffic.generateOriginGrid({
+      spacingMeters: 300,
+    });
+    expect(origins.length).toBeGreaterThan(1000);
+  });
+
+  it("rejects polygons too big to grid", async () => {
+    const continent = [
+      { lat: 25, lng: -125 },
+      { lat: 49, lng: -125 },
+      { lat: 49, lng: -67 },
+      { lat: 25, lng: -67 },
+    ];
+    await expect(
+      caller.traffic.generateOriginGrid({
+        spacingMeters: 300,
+        polygon: continent,
+      }),
+    ).rejects.toThrow("more than the 10000 allowed");
+    await expect(
+      caller.traffic.getRegionOrigins({
+        generated: { spacingMeters: 300, shape: "hex", polygon: continent },
+      }),
+    ).rejects.toThrow("more than the 10000 allowed");
+  });
+
+  it("rejects polygons off the globe", async () => {
+    // Past the pole the column step turns negative and the lattice would never end
+    const pastThePole = [
+      { lat: 91, lng: 0 },
+      { lat: 92, lng: 0.01 },
+      { lat: 91.5, lng: 0.02 },
+    ];
+    await expect(
+      caller.traffic.generateOriginGrid({ polygon: pastThePole }),
+    ).rejects.toThrow();
+    const { latticeBoxSize } = await import("~/server/geo/grid");
+    expect(latticeBoxSize(pastThePole, 1000, "hex")).toBe(Infinity);
+  });
+});
@@ -1,247 +1,559 @@
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
+import { destinationSchema, routeModifiersSchema } from "~/server/api/schemas";
 import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
-import { env } from "~/env";
-
-// Routes API response types
-interface Location {
-  latLng: {
-    latitude: number;
-    longitude: number;
-  };
+import {
+  computeChunkedMatrix,
+  getRoutingProvider,
+  getTravelTimeCache,
+  routeModifiersKey,
+  TRAFFIC_MODELS,
+  TRAVEL_MODES,
+  toRouteError,
+  type CachedElement,
+  type LatLng,
+  type RouteError,
+  type RouteModifiers,
+  type TrafficModel,
+  type TravelMode,
+  type Waypoint,
+} from "~/server/routing";
+import {
+  departureSpecSchema,
+  resolveDeparture,
+  weeklySlots,
+  type DepartureSpec,
+} from "~/server/routing/departure";
+import {
+  generateGridOrigins,
+  getOriginCatalog,
+  type Origin,
+} from "~/server/origins";
+import { DEFAULT_REGION_ID, getRegion, REGIONS } from "~/server/regions";
+import { geocodeCandidates, reverseGeocode } from "~/server/geo/geocoding";
+import { isInsidePolygon, latticeBoxSize } from "~/server/geo/grid";
+import {
+  averagePeriods,
+  foldReturnLeg,
+  trafficDelayScores,
+  weeklyTrips,
+  weightedScores,
+  type PeriodKind,
+} from "~/lib/scoring";
+import { requestFailure, summarizeFailures } from "~/lib/failures";
+
+const getDepartureDate = (departure: DepartureSpec, timeZone: string) => {
+  const targetDate = resolveDeparture(departure, timeZone);
+  if (!targetDate) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Departure ${departure.date} ${departure.time} is in the past`,
+    });
+  }
+  return targetDate;
+};
+
+const regionIdSchema = z.string().default(DEFAULT_REGION_ID);
+
+const MIN_SUGGESTION_QUERY_LENGTH = 3;
+
+const getRegionOrThrow = (regionId: string) => {
+  const region = getRegion(regionId);
+  if (!region) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Unknown region "${regionId}"`,
+    });
+  }
+  return region;
+};
+
+const originSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  address: z.string().optional(),
+  lat: z.number(),
+  lng: z.number(),
+});
+
+// Origins are cached by position, so renaming or re-generating a point keeps its travel times
+const originCacheKey = (origin: Origin) =>
+  `${origin.lat.toFixed(5)},${origin.lng.toFixed(5)}`;
+
+const toOriginWaypoint = (origin: Origin): Waypoint => ({
+  address: origin.address,
+  location: { lat: origin.lat, lng: origin.lng },
+});
+
+// Optimistic and pessimistic durations are only there when traffic models were requested, and
+// errors only on failed elements, which are never cached
+type TravelTimeElement = CachedElement & {
+  error?: RouteError;
+  optimisticDuration?: number;
+  pessimisticDuration?: number;
+};
+
+const toTravelTimeResult = (origin: Origin, element: TravelTimeElement) => ({
+  origin: origin.id,
+  neighborhood: origin.name,
+  address: origin.address,
+  lat: origin.lat,
+  lng: origin.lng,
+  duration: element.duration,
+  distance: element.distance,
+  status: element.status,
+  optimisticDuration: element.optimisticDuration,
+  pessimisticDuration: element.pessimisticDuration,
+  tollCost: element.tollCost,
+  tollCurrency: element.tollCurrency,
+  error: element.error,
+});
+
+interface CacheStats {
+  hits: number;
+  misses: number;
 }
 
-interface RouteMatrixElement {
-  status: {
-    code: number;
-    message?: string;
-  };
-  duration?: string;
-  distanceMeters?: number;
-  staticDuration?: string;
+interface RoutedDestination extends LatLng {
+  travelMode: TravelMode;
+  routeModifiers?: RouteModifiers;
 }
 
-interface RouteMatrixResponse {
-  originIndex?: number;
-  destinationIndex?: number;
-  status?: {
-    code?: number;
-    message?: string;
-  };
-  duration?: string;
-  distanceMeters?: number;
-  staticDuration?: string;
-  condition?: string;
+/** Per-destination modifiers override the request-wide ones field by field */
+const withRouteModifiers = <T extends RoutedDestination>(
+  destinations: T[],
+  routeModifiers: RouteModifiers = {},
+): Array<T & { routeModifiers: RouteModifiers }> =>
+  destinations.map((destination) => ({
+    ...destination,
+    routeModifiers: {
+      avoidTolls: destination.routeModifiers?.avoidTolls ?? routeModifiers.avoidTolls,
+      avoidHighways: destination.routeModifiers?.avoidHighways ?? routeModifiers.avoidHighways,
+      avoidFerries: destination.routeModifiers?.avoidFerries ?? routeModifiers.avoidFerries,
+    },
+  }));
+
+/**
+ * Travel times from every origin to every destination, indexed as [destination][origin]. Cached
+ * pairs are served from the travel time cache; only origins and destinations with at least one
+ * miss are sent to the routing provider, batched into as few matrix requests per travel mode and
+ * set of route modifiers as it allows. The traffic model is dropped for travel modes the provider
+ * can't model.
+ */
+const fetchCachedMatrix = async (
+  origins: Origin[],
+  destinations: RoutedDestination[],
+  departureTime: Date,
+  timeZone: string,
+  cacheStats: CacheStats,
+  trafficModel?: TrafficModel,
+) => {
+  const provider = getRoutingProvider();
+  const cache = getTravelTimeCache();
+
+  const modelFor = (travelMode: TravelMode) =>
+    provider.trafficModelModes?.includes(travelMode) ? trafficModel : undefined;
+
+  const keyFor = (origin: Origin, destination: RoutedDestination) => ({
+    origin: originCacheKey(origin),
+    destination: { lat: destination.lat, lng: destination.lng },
+    travelMode: destination.travelMode,
+    departureTime,
+    timeZone,
+    trafficModel: modelFor(destination.travelMode),
+    routeModifiers: destination.routeModifiers,
+  });
+
+  const matrix: Array<Array<TravelTimeElement | null>> = await Promise.all(
+    destinations.map((destination) =>
+      Promise.all(
+        origins.map((origin) => cache.get(keyFor(origin, destination))),
+      ),
+    ),
+  );
+
+  const hits = matrix.flat().filter(Boolean).length;
+  cacheStats.hits += hits;
+  cacheStats.misses += origins.length * destinations.length - hits;
+
+  const toStore: Parameters<typeof cache.setMany>[0] = [];
+
+  // A matrix request has a single travel mode and set of modifiers, so each pair is fetched on its own
+  const groupKey = (destination: RoutedDestination) =>
+    `${destination.travelMode}|${routeModifiersKey(destination.routeModifiers)}`;
+  const groups = new Map(destinations.map((d) => [groupKey(d), d]));
+  await Promise.all(
+    [...groups].map(async ([key, { travelMode, routeModifiers }]) => {
+      const missingDestinations = destinations.flatMap((destination, d) =>
+        groupKey(destination) === key &&
+        matrix[d]!.some((element) => !element)
+          ? [{ destination, d }]
+          : [],
+      );
+      const missingOrigins = origins.flatMap((origin, o) =>
+        missingDestinations.some(({ d }) => !matrix[d]![o])
+          ? [{ origin, o }]
+          : [],
+      );
+      if (missingOrigins.length === 0) return;
+
+      const fetched = await computeChunkedMatrix(provider, {
+        origins: missingOrigins.map(({ origin }) => toOriginWaypoint(origin)),
+        destinations: missingDestinations.map(({ destination }) => ({
+          location: { lat: destination.lat, lng: destination.lng },
+        })),
+        departureTime,
+        timeZone,
+        travelMode,
+        trafficModel: modelFor(travelMode),
+        routeModifiers,
+      });
+
+      fetched.forEach((element) => {
+        const origin = missingOrigins[element.originIndex];
+        const destination = missingDestinations[element.destinationIndex];
+        if (!origin || !destination) return;
+
+        matrix[destination.d]![origin.o] = element;
+        // Failures aren't cached so they get retried next time
+        if (element.status === "OK") {
+          toStore.push({
+            key: keyFor(origin.origin, destination.destination),
+            element,
+          });
+        }
+      });
+    }),
+  );
+  await cache.setMany(toStore);
+
+  return matrix;
+};
+
+/**
+ * Like fetchCachedMatrix, but times every pair under the best-guess, optimistic and pessimistic
+ * traffic models. Destinations whose travel mode the provider can't model only get a duration.
+ */
+const fetchTrafficModelMatrix = async (
+  origins: Origin[],
+  destinations: RoutedDestination[],
+  departureTime: Date,
+  timeZone: string,
+  cacheStats: CacheStats,
+): Promise<Array<Array<TravelTimeElement | null>>> => {
+  const provider = getRoutingProvider();
+  const modelled = destinations.flatMap((destination, d) =>
+    provider.trafficModelModes?.includes(destination.travelMode) ? [d] : [],
+  );
+
+  const [bestGuess, optimistic, pessimistic] = await Promise.all(
+    TRAFFIC_MODELS.map((trafficModel) =>
+      fetchCachedMatrix(
+        origins,
+        // Best guess doubles as the plain duration for every destination
+        trafficModel === "BEST_GUESS"
+          ? destinations
+          : modelled.map((d) => destinations[d]!),
+        departureTime,
+        timeZone,
+        cacheStats,
+        trafficModel,
+      ),
+    ),
+  );
+
+  return bestGuess!.map((row, d) => {
+    const m = modelled.indexOf(d);
+    return row.map((element, o) => {
+      const optimisticElement = optimistic![m]?.[o];
+      const pessimisticElement = pessimistic![m]?.[o];
+      if (
+        !element ||
+        optimisticElement?.status !== "OK" ||
+        pessimisticElement?.status !== "OK"
+      ) {
+        return element;
+      }
+      return {
+        ...element,
+        optimisticDuration: optimisticElement.duration,
+        pessimisticDuration: pessimisticElement.duration,
+      };
+    });
+  });
+};
+
+/**
+ * Travel times back from a destination to every origin, in the destination's travel mode. Pairs
+ * the router couldn't answer come back as failed.
+ */
+const fetchReturnLegs = async (
+  origins: Origin[],
+  destination: RoutedDestination & { id: string; name: string; address: string },
+  departureTime: Date,
+  timeZone: string,
+  cacheStats: CacheStats,
+  withTrafficModels: boolean,
+): Promise<TravelTimeElement[]> => {
+  const fetchMatrix = withTrafficModels
+    ? fetchTrafficModelMatrix
+    : fetchCachedMatrix;
+  const matrix = await fetchMatrix(
+    [
+      {
+        id: destination.id,
+        name: destination.name,
+        address: destination.address,
+        lat: destination.lat,
+        lng: destination.lng,
+      },
+    ],
+    origins.map(({ lat, lng }) => ({
+      lat,
+      lng,
+      travelMode: destination.travelMode,
+      routeModifiers: destination.routeModifiers,
+    })),
+    departureTime,
+    timeZone,
+    cacheStats,
+  );
+  return origins.map(
+    (_, o) =>
+      matrix[o]?.[0] ?? {
+        status: "FAILED",
+        duration: 0,
+        distance: 0,
+        error: { message: "No travel time returned" },
+      },
+  );
+};
+
+const latticeSchema = z.object({
+  spacingMeters: z.number().min(300).max(5000).default(1000),
+  shape: z.enum(["square", "hex"]).default("hex"),
+  // Defaults to the region's boundary
+  polygon: z
+    .array(
+      z.object({
+        lat: z.number().min(-90).max(90),
+        lng: z.number().min(-180).max(180),
+      }),
+    )
+    .min(3)
+    .optional(),
+});
+
+// Every region's boundary fits well under this at the smallest spacing; far more would stall the server
+const MAX_LATTICE_POINTS = 10_000;
+
+const generateGridOrThrow = (
+  lattice: z.infer<typeof latticeSchema>,
+  region: ReturnType<typeof getRegionOrThrow>,
+) => {
+  const size = latticeBoxSize(
+    lattice.polygon ?? region.boundary,
+    lattice.spacingMeters,
+    lattice.shape,
+  );
+  if (!Number.isFinite(size)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "A grid can't be laid over that polygon",
+    });
+  }
+  if (size > MAX_LATTICE_POINTS) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `A ${lattice.spacingMeters} m grid over that polygon could have ${size} points, more than the ${MAX_LATTICE_POINTS} allowed`,
+    });
+  }
+  return generateGridOrigins({ ...lattice, region });
+};
+
+const weightedDestinationSchema = destinationSchema.extend({
+  weight: z.number().default(1),
+});
+
+type RoutedDestinationInput = z.infer<typeof weightedDestinationSchema> & {
+  routeModifiers: RouteModifiers;
+};
+
+interface DestinationTravelTimes {
+  destinationId: string;
+  destinationName: string;
+  destinationAddress: string;
+  travelMode: TravelMode;
+  returnDeparture?: DepartureSpec;
+  routeModifiers: RouteModifiers;
+  results: Array<
+    ReturnType<typeof toTravelTimeResult> & {
+      returnLeg?: TravelTimeElement;
+    }
+  >;
 }
 
-// Real San Francisco addresses for accurate routing (optimized for East Bay commutes)
-const SF_ADDRESSES = [
-  // Major intersections and landmarks
-  { address: "Market St & Montgomery St, San Francisco, CA", name: "Financial District" },
-  { address: "Union Square, San Francisco, CA", name: "Union Square" },
-  { address: "Chinatown, San Francisco, CA", name: "Chinatown" },
-  { address: "North Beach, San Francisco, CA", name: "North Beach" },
-  { address: "Fisherman's Wharf, San Francisco, CA", name: "Fisherman's Wharf" },
-  
-  // SOMA and Mission Bay (close to Bay Bridge)
-  { address: "SOMA, San Francisco, CA", name: "SOMA" },
-  { address: "Mission Bay, San Francisco, CA", name: "Mission Bay" },
-  { address: "Potrero Hill, San Francisco, CA", name: "Potrero Hill" },
-  
-  // Mission District (central)
-  { address: "Mission District, San Francisco, CA", name: "Mission District" },
-  { address: "16th Street Mission BART, San Francisco, CA", name: "16th St Mission" },
-  { address: "24th Street Mission BART, San Francisco, CA", name: "24th St Mission" },
-  
-  // Castro and Noe Valley
-  { address: "Castro District, San Francisco, CA", name: "Castro" },
-  { address: "Noe Valley, San Francisco, CA", name: "Noe Valley" },
-  
-  // Hayes Valley and Haight
-  { address: "Hayes Valley, San Francisco, CA", name: "Hayes Valley" },
-  { address: "Haight Ashbury, San Francisco, CA", name: "Haight-Ashbury" },
-  
-  // Richmond District (key locations)
-  { address: "Inner Richmond, San Francisco, CA", name: "Inner Richmond" },
-  { address: "Outer Richmond, San Francisco, CA", name: "Outer Richmond" },
-  { address: "Geary Blvd & 19th Ave, San Francisco, CA", name: "Richmond (Geary)" },
-  
-  // Sunset District (key locations)
-  { address: "Inner Sunset, San Francisco, CA", name: "Inner Sunset" },
-  { address: "Outer Sunset, San Francisco, CA", name: "Outer Sunset" },
-  
-  // Pacific Heights and Marina
-  { address: "Pacific Heights, San Francisco, CA", name: "Pacific Heights" },
-  { address: "Marina District, San Francisco, CA", name: "Marina District" },
-  { address: "Russian Hill, San Francisco, CA", name: "Russian Hill" },
-  { address: "Nob Hill, San Francisco, CA", name: "Nob Hill" },
-  
-  // Additional North Beach and Marina points
-  { address: "Columbus Ave & Broadway, San Francisco, CA", name: "North Beach (Broadway)" },
-  { address: "Chestnut St & Fillmore St, San Francisco, CA", name: "Marina (Chestnut)" },
-  { address: "Palace of Fine Arts, San Francisco, CA", name: "Palace of Fine Arts" },
-  
-  // Additional Pacific Heights points
-  { address: "Fillmore St & California St, San Francisco, CA", name: "Pac Heights (Fillmore)" },
-  { address: "Divisadero St & California St, San Francisco, CA", name: "Pac Heights (Divisadero)" },
-  
-  // Additional Richmond District points
-  { address: "Clement St & 6th Ave, San Francisco, CA", name: "Inner Richmond (Clement)" },
-  { address: "Clement St & 19th Ave, San Francisco, CA", name: "Mid Richmond (Clement)" },
-  
-  // Western Addition and Fillmore
-  { address: "Western Addition, San Francisco, CA", name: "Western Addition" },
-  { address: "Fillmore District, San Francisco, CA", name: "Fillmore" },
-  { address: "Japantown, San Francisco, CA", name: "Japantown" },
-  { address: "Alamo Square, San Francisco, CA", name: "Alamo Square" },
-  
-  // Presidio Area
-  { address: "Presidio, San Francisco, CA", name: "Presidio" },
-  { address: "Presidio Heights, San Francisco, CA", name: "Presidio Heights" },
-  
-  // Central Areas
-  { address: "West Portal, San Francisco, CA", name: "West Portal" },
-  { address: "Twin Peaks, San Francisco, CA", name: "Twin Peaks" },
-  
-  // BART Stations (crucial for East Bay commutes)
-  { address: "Powell Street BART, San Francisco, CA", name: "Powell BART" },
-  { address: "Montgomery Street BART, San Francisco, CA", name: "Montgomery BART" },
-  { address: "Civic Center BART, San Francisco, CA", name: "Civic Center BART" },
-  
-  // Universities and landmarks
-  { address: "UCSF Parnassus, San Francisco, CA", name: "UCSF Parnassus" },
-  { address: "USF, San Francisco, CA", name: "University of San Francisco" },
-  { address: "Golden Gate Park, San Francisco, CA", name: "Golden Gate Park" },
-  
-  // Additional key streets and areas
-  { address: "Van Ness Ave & Geary St, San Francisco, CA", name: "Van Ness Corridor" },
-  { address: "Market St & Castro St, San Francisco, CA", name: "Castro Station" },
-  { address: "Irving St & 19th Ave, San Francisco, CA", name: "Inner Sunset (Irving)" },
-  
-  // Southern Mission (close to East Bay)
-  { address: "Dogpatch, San Francisco, CA", name: "Dogpatch" },
-];
+/**
+ * Travel times from every origin to each destination at one departure time, plus the way back for
+ * destinations with a return departure. Destinations without any results are left out.
+ */
+const routeDestinations = async (
+  origins: Origin[],
+  destinations: RoutedDestinationInput[],
+  departureTime: Date,
+  timeZone: string,
+  cacheStats: CacheStats,
+  trafficModels: boolean,
+): Promise<DestinationTravelTimes[]> => {
+  // Every origin and destination in as few matrix requests as possible
+  const fetchMatrix = trafficModels ? fetchTrafficModelMatrix : fetchCachedMatrix;
+  const matrix = await fetchMatrix(origins, destinations, departureTime, timeZone, cacheStats);
+
+  // Return legs run the other way, one destination at a time
+  const returnLegs = await Promise.all(
+    destinations.map((destination) =>
+      destination.returnDeparture
+        ? fetchReturnLegs(
+            origins,
+            destination,
+            getDepartureDate(destination.returnDeparture, timeZone),
+            timeZone,
+            cacheStats,
+            trafficModels,
+          )
+        : null,
+    ),
+  );
+
+  return destinations.flatMap((destination, d) => {
+    const results = origins.flatMap((origin, o) => {
+      const element = matrix[d]?.[o];
+      const returnLeg = returnLegs[d]?.[o];
+      return element
+        ? [
+            {
+              ...toTravelTimeResult(origin, element),
+              ...(returnLeg ? { returnLeg } : {}),
+            },
+          ]
+        : [];
+    });
+
+    if (results.length === 0) {
+      console.error(`No results for destination ${destination.name}`);
+      return [];
+    }
+
+    return [
+      {
+        destinationId: destination.id,
+        destinationName: destination.name,
+        destinationAddress: destination.address,
+        travelMode: destination.travelMode,
+        returnDeparture: destination.returnDeparture,
+        routeModifiers: destination.routeModifiers,
+        results,
+      },
+    ];
+  });
+};
+
+/** Yields each promise's value as soon as it resolves, rather than in order */
+async function* inCompletionOrder<T>(promises: Array<Promise<T>>) {
+  const pending = new Map(
+    promises.map((promise, i) => [i, promise.then((value) => ({ i, value }))]),
+  );
+  while (pending.size > 0) {
+    const { i, value } = await Promise.race(pending.values());
+    pending.delete(i);
+    yield value;
+  }
+}
+
+const periodSchema = z.object({
+  id: z.string(),
+  // Rush hour trips come back at each destination's return time, off-peak trips off-peak
+  kind: z.enum(["rush", "offpeak"]),
+  departure: departureSpecSchema,
+});
+
+type Period = z.infer<typeof periodSchema>;
+
+/** A destination as routed in one period, coming back at the time that period's trips do */
+const forPeriod = <T extends RoutedDestinationInput>(destination: T, period: Period): T => ({
+  ...destination,
+  returnDeparture:
+    destination.returnDeparture &&
+    (period.kind === "rush" ? destination.returnDeparture : period.departure),
+});
+
+type TravelTimeStreamEvent =
+  | { type: "start"; total: number }
+  | { type: "destination"; periodId: string; destination: DestinationTravelTimes }
+  | {
+      type: "failed";
+      periodId: string;
+      destinationId: string;
+      destinationName: string;
+      error: RouteError;
+    }
+  | { type: "done"; cache: CacheStats };
 
 export const trafficRouter = createTRPCRouter({
   getTravelTimes: publicProcedure
     .input(
       z.object({
-        origins: z.array(z.string()),
+        regionId: regionIdSchema,
+        // Defaults to the region's origin catalog
+        origins: z.array(originSchema).optional(),
         destination: z.object({
           lat: z.number(),
           lng: z.number(),
         }),
-        departureTime: z.enum(["rush", "offpeak"]),
+        travelMode: z.enum(TRAVEL_MODES).default("DRIVE"),
+        routeModifiers: routeModifiersSchema.optional(),
+        departure: departureSpecSchema,
       })
     )
     .query(async ({ input }) => {
-      const { origins, destination, departureTime } = input;
-      
-      // Calculate departure time for the next occurrence
-      const now = new Date();
-      const targetHour = departureTime === "rush" ? 17 : 3; // 5PM or 3AM
-      const targetDate = new Date(now);
-      targetDate.setHours(targetHour, 0, 0, 0);
-      
-      // If target time has passed today, set for tomorrow
-      if (targetDate <= now) {
-        targetDate.setDate(targetDate.getDate() + 1);
-      }
+      const { destination, travelMode, routeModifiers, departure } = input;
+      const region = getRegionOrThrow(input.regionId);
+      const origins = input.origins ?? getOriginCatalog(region);
+      const provider = getRoutingProvider();
+      const targetDate = getDepartureDate(departure, region.timeZone);
 
-      console.log(`Routes API: Processing ${origins.length} origins to destination`);
-      
-      // Build Routes API request body according to official docs
-      const requestBody = {
-        origins: origins.map(address => ({
-          waypoint: {
-            address: address
-          }
-        })),
-        destinations: [{
-          waypoint: {
-            location: {
-              latLng: {
-                latitude: destination.lat,
-                longitude: destination.lng
-              }
-            }
-          }
-        }],
-        travelMode: "DRIVE",
-        routingPreference: "TRAFFIC_AWARE",
-        departureTime: targetDate.toISOString()
-      };
-
-      console.log(`Routes API request body:`, JSON.stringify(requestBody, null, 2));
+      console.log(`${provider.name} routing: Processing ${origins.length} ${region.name} origins to destination`);
       
       try {
-        const response = await fetch(
-          'https://routes.googleapis.com/distanceMatrix/v2:computeRouteMatrix',
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'X-Goog-Api-Key': env.GOOGLE_MAPS_API_KEY,
-              'X-Goog-FieldMask': 'originIndex,destinationIndex,duration,distanceMeters,status,condition'
-            },
-            body: JSON.stringify(requestBody)
-          }
-        );
-
-        console.log(`Routes API response status: ${response.status}`);
-        console.log(`Routes API response headers:`, response.headers);
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`Routes API error response:`, errorText);
-          throw new Error(`Routes API error: ${response.status} - ${errorText}`);
-        }
-
-        const responseText = await response.text();
-        console.log(`Routes API raw response:`, responseText);
-        
-        if (!responseText.trim()) {
-          throw new Error('Empty response from Routes API');
-        }
+        const elements = await provider.computeRouteMatrix({
+          origins: origins.map(toOriginWaypoint),
+          destinations: [{ location: destination }],
+          departureTime: targetDate,
+          timeZone: region.timeZone,
+          travelMode,
+          routeModifiers,
+        });
 
-        const data: unknown = JSON.parse(responseText);
-        console.log(`Routes API parsed response:`, JSON.stringify(data, null, 2));
+        elements.forEach((element) => {
+          console.log(`Origin ${element.originIndex}: "${origins[element.originIndex]?.name}" -> Status: ${element.status}, Duration: ${element.duration}s, Condition: ${element.condition ?? 'unknown'}`);
+        });
 
-        // Parse Routes API response - according to docs, it returns an array directly
-        const routeMatrix = Array.isArray(data) ? data as RouteMatrixResponse[] : [data as RouteMatrixResponse];
-        
-        const results = routeMatrix.map((element) => {
-          const originIndex = element.originIndex ?? 0;
-          const originAddress = origins[originIndex] ?? "Unknown";
-          const neighborhood = SF_ADDRESSES.find(addr => addr.address === originAddress);
-          
-          // Parse duration from ISO 8601 format (e.g., "1234s" -> 1234)
-          const durationSeconds = element.duration ? 
-            parseFloat(element.duration.replace('s', '')) : 0;
-          
-          // Check status - according to docs, empty status object means success
-          const isSuccess = !element.status || Object.keys(element.status).length === 0;
-          const status = isSuccess ? 'OK' : 'FAILED';
-          
-          console.log(`Origin ${originIndex}: "${originAddress}" -> Status: ${status}, Duration: ${durationSeconds}s, Condition: ${element.condition ?? 'unknown'}`);
-          
-          return {
-            origin: originAddress,
-            neighborhood: neighborhood?.name ?? "Unknown Location",
-            duration: durationSeconds,
-            distance: element.distanceMeters ?? 0,
-            status: status,
-          };
+        const results = elements.flatMap((element) => {
+          const origin = origins[element.originIndex];
+          return origin ? [toTravelTimeResult(origin, element)] : [];
         });
 
-        console.log(`Routes API valid results: ${results.filter(r => r.status === 'OK').length}/${results.length}`);
+        console.log(`${provider.name} routing valid results: ${results.filter(r => r.status === 'OK').length}/${results.length}`);
         
         return {
           results,
-          departureTime: departureTime,
+          travelMode,
+          departure,
+          departureTime: targetDate.toISOString(),
           timestamp: new Date().toISOString(),
         };
       } catch (error) {
-        console.error('Routes API error:', error);
+        console.error(`${provider.name} routing error:`, error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         throw new Error(`Failed to fetch traffic data: ${errorMessage}`);
       }
@@ -250,223 +562,448 @@ export const trafficRouter = createTRPCRouter({
   getTravelTimesMultiDestination: publicProcedure
     .input(
       z.object({
-        origins: z.array(z.string()),
-        destinations: z.array(z.object({
-          id: z.string(),
-          name: z.string(),
-          address: z.string(),
-          lat: z.number(),
-          lng: z.number(),
-          weight: z.number().default(1),
-        })),
-        departureTime: z.enum(["rush", "offpeak"]),
+        regionId: regionIdSchema,
+        // Defaults to the region's origin catalog
+        origins: z.array(originSchema).optional(),
+        destinations: z.array(weightedDestinationSchema),
+        departure: departureSpecSchema,
+        // Also time optimistic and pessimistic traffic, for providers and modes that support it
+        trafficModels: z.boolean().default(false),
+        // Applies to every destination that doesn't set its own
+        routeModifiers: routeModifiersSchema.optional(),
       })
     )
     .query(async ({ input }) => {
-      const { origins, destinations, departureTime } = input;
-      
-      // Calculate departure time for the next occurrence
-      const now = new Date();
-      const targetHour = departureTime === "rush" ? 17 : 3; // 5PM or 3AM
-      const targetDate = new Date(now);
-      targetDate.setHours(targetHour, 0, 0, 0);
+      const { departure, trafficModels } = input;
+      const destinations = withRouteModifiers(input.destinations, input.routeModifiers);
+      const region = getRegionOrThrow(input.regionId);
+      const origins = input.origins ?? getOriginCatalog(region);
+      const provider = getRoutingProvider();
+      const targetDate = getDepartureDate(departure, region.timeZone);
+
+      console.log(`${provider.name} routing Multi-Destination: Processing ${origins.length} ${region.name} origins to ${destinations.length} destinations`);
       
-      // If target time has passed today, set for tomorrow
-      if (targetDate <= now) {
-        targetDate.setDate(targetDate.getDate() + 1);
+      const allResults: DestinationTravelTimes[] = [];
+      let requestError: RouteError | undefined;
+
+      const cacheStats: CacheStats = { hits: 0, misses: 0 };
+
+      try {
+        allResults.push(
+          ...(await routeDestinations(
+            origins,
+            destinations,
+            targetDate,
+            region.timeZone,
+            cacheStats,
+            trafficModels,
+          )),
+        );
+      } catch (error) {
+        console.error(`Error processing destinations:`, error);
+        requestError = toRouteError(error);
       }
 
-      console.log(`Routes API Multi-Destination: Processing ${origins.length} origins to ${destinations.length} destinations`);
+      console.log(`Travel time cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses`);
+
+      // A trip fails when either leg does; destinations left out entirely failed as a whole
+      const failures = [
+        ...summarizeFailures(
+          allResults.map(({ results, ...destData }) => ({
+            ...destData,
+            results: results.map(({ returnLeg, ...result }) => foldReturnLeg(result, returnLeg)),
+          })),
+        ),
+        ...destinations
+          .filter((destination) => !allResults.some((d) => d.destinationId === destination.id))
+          .map((destination) =>
+            requestFailure(
+              destination.id,
+              destination.name,
+              requestError ?? { message: "No travel times returned" },
+              origins.length,
+            ),
+          ),
+      ];
       
-      const allResults: Array<{
-        destinationId: string;
-        destinationName: string;
-        destinationAddress: string;
-        results: Array<{
-          origin: string;
-          neighborhood: string;
-          duration: number;
-          distance: number;
-          status: string;
-        }>;
-      }> = [];
-
-      // Process each destination separately
-      for (const destination of destinations) {
-        try {
-          const requestBody = {
-            origins: origins.map(address => ({
-              waypoint: {
-                address: address
-              }
-            })),
-            destinations: [{
-              waypoint: {
-                location: {
-                  latLng: {
-                    latitude: destination.lat,
-                    longitude: destination.lng
-                  }
-                }
-              }
-            }],
-            travelMode: "DRIVE",
-            routingPreference: "TRAFFIC_AWARE",
-            departureTime: targetDate.toISOString()
-          };
-
-          const response = await fetch(
-            'https://routes.googleapis.com/distanceMatrix/v2:computeRouteMatrix',
-            {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'X-Goog-Api-Key': env.GOOGLE_MAPS_API_KEY,
-                'X-Goog-FieldMask': 'originIndex,destinationIndex,duration,distanceMeters,status,condition'
-              },
-              body: JSON.stringify(requestBody)
-            }
-          );
+      return {
+        destinations: allResults,
+        failures,
+        cache: cacheStats,
+        trafficModels,
+        departure,
+        departureTime: targetDate.toISOString(),
+        timestamp: new Date().toISOString(),
+      };
+    }),
 
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error(`Routes API error for destination ${destination.name}:`, errorText);
-            continue;
-          }
+  // Streams each destination of each period as soon as it's routed, so the map can fill in while
+  // the rest load
+  streamTravelTimes: publicProcedure
+    .input(
+      z.object({
+        regionId: regionIdSchema,
+        // Defaults to the region's origin catalog
+        origins: z.array(originSchema).optional(),
+        destinations: z.array(weightedDestinationSchema),
+        periods: z.array(periodSchema).min(1),
+        trafficModels: z.boolean().default(false),
+        routeModifiers: routeModifiersSchema.optional(),
+      })
+    )
+    .query(async function* ({ input }): AsyncGenerator<TravelTimeStreamEvent> {
+      const { periods, trafficModels } = input;
+      const region = getRegionOrThrow(input.regionId);
+      const origins = input.origins ?? getOriginCatalog(region);
+      const destinations = withRouteModifiers(input.destinations, input.routeModifiers);
+      // A departure in the past fails the whole request, like the other procedures
+      const departureTimes = periods.map((period) => getDepartureDate(period.departure, region.timeZone));
+      const cacheStats: CacheStats = { hits: 0, misses: 0 };
 
-          const responseText = await response.text();
-          if (!responseText.trim()) {
-            console.error(`Empty response for destination ${destination.name}`);
-            continue;
-          }
+      console.log(`Streaming travel times: ${origins.length} ${region.name} origins x ${destinations.length} destinations x ${periods.length} periods`);
 
-          const data: unknown = JSON.parse(responseText);
-          const routeMatrix = Array.isArray(data) ? data as RouteMatrixResponse[] : [data as RouteMatrixResponse];
-          
-          const results = routeMatrix.map((element) => {
-            const originIndex = element.originIndex ?? 0;
-            const originAddress = origins[originIndex] ?? "Unknown";
-            const neighborhood = SF_ADDRESSES.find(addr => addr.address === originAddress);
-            
-            const durationSeconds = element.duration ? 
-              parseFloat(element.duration.replace('s', '')) : 0;
-            
-            const isSuccess = !element.status || Object.keys(element.status).length === 0;
-            const status = isSuccess ? 'OK' : 'FAILED';
-            
-            return {
-              origin: originAddress,
-              neighborhood: neighborhood?.name ?? "Unknown Location",
-              duration: durationSeconds,
-              distance: element.distanceMeters ?? 0,
-              status: status,
-            };
-          });
+      yield { type: "start", total: periods.length * destinations.length };
 
-          allResults.push({
+      // Destinations are routed one by one so each can be sent as soon as it's done; the request
+      // scheduler still caps how many provider requests run at once
+      const tasks = periods.flatMap((period, p) =>
+        destinations.map(async (destination): Promise<TravelTimeStreamEvent> => {
+          const failed = (error: RouteError): TravelTimeStreamEvent => ({
+            type: "failed",
+            periodId: period.id,
             destinationId: destination.id,
             destinationName: destination.name,
-            destinationAddress: destination.address,
-            results
+            error,
+          });
+
+          try {
+            const [result] = await routeDestinations(
+              origins,
+              [forPeriod(destination, period)],
+              departureTimes[p]!,
+              region.timeZone,
+              cacheStats,
+              trafficModels,
+            );
+            return result
+              ? { type: "destination", periodId: period.id, destination: result }
+              : failed({ message: "No travel times returned" });
+          } catch (error) {
+            console.error(`Error routing ${destination.name} for ${period.id}:`, error);
+            return failed(toRouteError(error));
+          }
+        }),
+      );
+
+      for await (const event of inCompletionOrder(tasks)) {
+        yield event;
+      }
+
+      console.log(`Travel time cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses`);
+      yield { type: "done", cache: cacheStats };
+    }),
+
+  // Ranks origins by the same trip-weighted score the map shows, for callers that only want the
+  // answer rather than every travel time
+  scoreOrigins: publicProcedure
+    .input(
+      z.object({
+        regionId: regionIdSchema,
+        // Defaults to the region's origin catalog
+        origins: z.array(originSchema).optional(),
+        destinations: z.array(
+          weightedDestinationSchema.extend({
+            rushTrips: z.number().min(0).default(1),
+            offpeakTrips: z.number().min(0).default(1),
+          }),
+        ),
+        // Periods of the same kind are averaged, like several rush hour times on the map
+        periods: z.array(periodSchema).min(1),
+        selectedTime: z.enum(["rush", "offpeak", "combined"]).default("combined"),
+        selectedDestination: z.string().default("all"),
+        view: z.enum(["travel-time", "traffic-delay"]).default("travel-time"),
+        routeModifiers: routeModifiersSchema.optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const { selectedTime, selectedDestination, view } = input;
+      const region = getRegionOrThrow(input.regionId);
+      const origins = input.origins ?? getOriginCatalog(region);
+      const destinations = withRouteModifiers(input.destinations, input.routeModifiers);
+
+      // Traffic delay compares rush hour with off-peak whatever the selected time
+      const kinds: PeriodKind[] =
+        view === "traffic-delay" || selectedTime === "combined"
+          ? ["rush", "offpeak"]
+          : [selectedTime];
+      kinds.forEach((kind) => {
+        if (!input.periods.some((period) => period.kind === kind)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Scoring needs at least one ${kind} period`,
           });
+        }
+      });
+      const periods = input.periods.filter((period) => kinds.includes(period.kind));
+      const departureTimes = periods.map((period) => getDepartureDate(period.departure, region.timeZone));
+      const cacheStats: CacheStats = { hits: 0, misses: 0 };
 
-          // Add delay between destinations to respect API limits
-          await new Promise(resolve => setTimeout(resolve, 500));
+      console.log(`Scoring ${origins.length} ${region.name} origins against ${destinations.length} destinations over ${periods.length} periods`);
 
+      const periodData = await Promise.all(
+        periods.map(async (period, p) => {
+          const routed = await routeDestinations(
+            origins,
+            destinations.map((destination) => forPeriod(destination, period)),
+            departureTimes[p]!,
+            region.timeZone,
+            cacheStats,
+            false,
+          );
+          return routed.map(({ results, ...destData }) => ({
+            ...destData,
+            results: results.map(({ returnLeg, ...result }) => foldReturnLeg(result, returnLeg)),
+          }));
+        }),
+      );
+      const byKind = (kind: PeriodKind) =>
+        averagePeriods(periodData.filter((_, p) => periods[p]!.kind === kind));
+
+      const scores =
+        view === "traffic-delay"
+          ? trafficDelayScores(byKind("rush"), byKind("offpeak"), destinations, selectedDestination)
+          : weightedScores(
+              kinds.map((kind) => ({ kind, destinations: byKind(kind) })),
+              destinations,
+              selectedDestination,
+            );
+      const tripsPerWeek = weeklyTrips(destinations, view, selectedTime, selectedDestination);
+
+      console.log(`Travel time cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses`);
+
+      return {
+        scores: scores
+          .map((score) => ({
+            origin: score.origin,
+            neighborhood: score.neighborhood,
+            address: score.address,
+            lat: score.lat,
+            lng: score.lng,
+            // Seconds per trip, and per week over every weighted trip
+            perTrip: score.duration,
+            weekly: score.duration * tripsPerWeek,
+          }))
+          .sort((a, b) => a.perTrip - b.perTrip),
+        weeklyTrips: tripsPerWeek,
+        view,
+        selectedTime,
+        cache: cacheStats,
+      };
+    }),
+
+  getWeeklyProfile: publicProcedure
+    .input(
+      z.object({
+        regionId: regionIdSchema,
+        // Defaults to the region's origin catalog
+        origins: z.array(originSchema).optional(),
+        destinations: z.array(weightedDestinationSchema),
+        // 60 gives a 7x24 grid, 30 a 7x48 grid
+        resolutionMinutes: z.union([z.literal(60), z.literal(30)]).default(60),
+        // Applies to every destination that doesn't set its own
+        routeModifiers: routeModifiersSchema.optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const { resolutionMinutes } = input;
+      const destinations = withRouteModifiers(input.destinations, input.routeModifiers);
+      const region = getRegionOrThrow(input.regionId);
+      const origins = input.origins ?? getOriginCatalog(region);
+      const slots = weeklySlots(resolutionMinutes);
+      const cacheStats: CacheStats = { hits: 0, misses: 0 };
+
+      console.log(`Weekly profile: ${origins.length} ${region.name} origins x ${destinations.length} destinations x ${slots.length} slots`);
+
+      const profiles = destinations.map((destination) => ({
+        destinationId: destination.id,
+        destinationName: destination.name,
+        destinationAddress: destination.address,
+        travelMode: destination.travelMode,
+        origins: origins.map((origin) => ({
+          origin: origin.id,
+          neighborhood: origin.name,
+          address: origin.address,
+          lat: origin.lat,
+          lng: origin.lng,
+          // One entry per slot, null where routing failed
+          durations: slots.map((): number | null => null),
+          distances: slots.map((): number | null => null),
+        })),
+      }));
+
+      // One batched matrix per slot covers every destination
+      for (const [slotIndex, slot] of slots.entries()) {
+        try {
+          const matrix = await fetchCachedMatrix(
+            origins,
+            destinations,
+            getDepartureDate(slot, region.timeZone),
+            region.timeZone,
+            cacheStats,
+          );
+
+          profiles.forEach((profile, d) => {
+            profile.origins.forEach((originProfile, o) => {
+              const element = matrix[d]?.[o];
+              if (element?.status !== "OK") return;
+              originProfile.durations[slotIndex] = element.duration;
+              originProfile.distances[slotIndex] = element.distance;
+            });
+          });
         } catch (error) {
-          console.error(`Error processing destination ${destination.name}:`, error);
+          console.error(`Error profiling slot ${slot.weekday} ${slot.time}:`, error);
         }
       }
-      
+
+      console.log(`Travel time cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses`);
+
       return {
-        destinations: allResults,
-        departureTime: departureTime,
+        slots,
+        resolutionMinutes,
+        destinations: profiles,
+        cache: cacheStats,
         timestamp: new Date().toISOString(),
       };
     }),
 
   geocodeAddress: publicProcedure
     .input(z.object({
+      regionId: regionIdSchema,
       address: z.string(),
     }))
     .query(async ({ input }) => {
       const { address } = input;
+      const { bounds } = getRegionOrThrow(input.regionId);
       
       try {
         console.log(`Geocoding address: ${address}`);
-        
-        const response = await fetch(
-          `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${env.GOOGLE_MAPS_API_KEY}`
-        );
 
-        if (!response.ok) {
-          throw new Error(`Geocoding API error: ${response.status}`);
+        // The best match, preferring ones inside the region
+        const [result] = await geocodeCandidates(address, bounds);
+        if (!result) {
+          throw new Error("Geocoding failed: ZERO_RESULTS");
         }
 
-        const data = await response.json() as {
-          status: string;
-          results: Array<{
-            geometry: {
-              location: {
-                lat: number;
-                lng: number;
-              };
-            };
-            formatted_address: string;
-          }>;
+        console.log(`Geocoded "${address}" to:`, { lat: result.lat, lng: result.lng });
+
+        return {
+          lat: result.lat,
+          lng: result.lng,
+          formatted_address: result.formattedAddress,
         };
+      } catch (error) {
+        console.error('Geocoding error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Failed to geocode address: ${errorMessage}`);
+      }
+    }),
 
-        if (data.status !== 'OK' || data.results.length === 0) {
-          throw new Error(`Geocoding failed: ${data.status}`);
-        }
+  // Ranked matches for a partly typed address, so ambiguous ones can be picked from a list
+  suggestAddresses: publicProcedure
+    .input(z.object({
+      regionId: regionIdSchema,
+      query: z.string(),
+      limit: z.number().int().min(1).max(10).default(5),
+    }))
+    .query(async ({ input }) => {
+      const { limit } = input;
+      const query = input.query.trim();
+      const { bounds } = getRegionOrThrow(input.regionId);
+
+      // Too short to mean anything, and not worth a request
+      if (query.length < MIN_SUGGESTION_QUERY_LENGTH) {
+        return { query, suggestions: [] };
+      }
+
+      try {
+        const candidates = await geocodeCandidates(query, bounds);
+        return { query, suggestions: candidates.slice(0, limit) };
+      } catch (error) {
+        console.error('Address suggestion error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Failed to suggest addresses: ${errorMessage}`);
+      }
+    }),
 
-        const result = data.results[0]!;
-        console.log(`Geocoded "${address}" to:`, result.geometry.location);
+  // The address at a point picked on the map; the point itself is kept as the location
+  reverseGeocode: publicProcedure
+    .input(z.object({
+      regionId: regionIdSchema,
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180),
+    }))
+    .query(async ({ input }) => {
+      const { lat, lng } = input;
+      const region = getRegionOrThrow(input.regionId);
 
+      try {
+        const result = await reverseGeocode({ lat, lng }, region.bounds);
         return {
-          lat: result.geometry.location.lat,
-          lng: result.geometry.location.lng,
-          formatted_address: result.formatted_address,
+          lat,
+          lng,
+          address: result?.formattedAddress ?? null,
+          inRegion: isInsidePolygon({ lat, lng }, region.boundary),
         };
       } catch (error) {
-        console.error('Geocoding error:', error);
+        console.error('Reverse geocoding error:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to geocode address: ${errorMessage}`);
+        throw new Error(`Failed to reverse geocode: ${errorMessage}`);
       }
     }),
 
-  getSanFranciscoGrid: publicProcedure
+  getRegions: publicProcedure
     .query(async () => {
-      return SF_ADDRESSES.map(addr => addr.address);
+      return REGIONS.map(({ id, name, bounds, center, zoom }) => ({
+        id,
+        name,
+        bounds,
+        center,
+        zoom,
+      }));
+    }),
+
+  getOriginCatalog: publicProcedure
+    .input(z.object({ regionId: regionIdSchema }))
+    .query(async ({ input }) => {
+      return getOriginCatalog(getRegionOrThrow(input.regionId));
+    }),
+
+  generateOriginGrid: publicProcedure
+    .input(latticeSchema.extend({ regionId: regionIdSchema }))
+    .query(async ({ input }) => {
+      const { regionId, ...lattice } = input;
+      return generateGridOrThrow(lattice, getRegionOrThrow(regionId));
+    }),
+
+  getRegionOrigins: publicProcedure
+    .input(
+      z.object({
+        regionId: regionIdSchema,
+        // Return a generated lattice instead of the origin catalog
+        generated: latticeSchema.optional(),
+      }),
+    )
+    .query(async ({ input }): Promise<Origin[]> => {
+      const region = getRegionOrThrow(input.regionId);
+      if (input.generated) {
+        return generateGridOrThrow(input.generated, region);
+      }
+      return getOriginCatalog(region);
     }),
 
   getDefaultDestinations: publicProcedure
-    .query(async () => {
-      return [
-        {
-          id: "oakland-mandela",
-          name: "Oakland Office",
-          address: "2140 Mandela Pkwy, Oakland, CA 94607",
-          lat: 37.8199,
-          lng: -122.2946,
-          weight: 5, // 5 times per week
-        },
-        {
-          id: "palo-alto",
-          name: "Palo Alto Office", 
-          address: "University Ave, Palo Alto, CA 94301",
-          lat: 37.4419,
-          lng: -122.1430,
-          weight: 2, // 2 times per week
-        },
-        {
-          id: "san-jose",
-          name: "San Jose Client",
-          address: "Downtown San Jose, CA 95113",
-          lat: 37.3382,
-          lng: -121.8863,
-          weight: 1, // 1 time per week
-        }
-      ];
+    .input(z.object({ regionId: regionIdSchema }))
+    .query(async ({ input }) => {
+      return getRegionOrThrow(input.regionId).defaultDestinations;
     }),
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+import { TRAVEL_MODES } from "~/server/routing";
+import { departureSpecSchema } from "~/server/routing/departure";
+
+/** Inputs more than one router takes, so they're checked the same way everywhere */
+
+export const routeModifiersSchema = z.object({
+  avoidTolls: z.boolean().optional(),
+  avoidHighways: z.boolean().optional(),
+  avoidFerries: z.boolean().optional(),
+});
+
+// Each router adds what it needs, e.g. a weight or trip counts
+export const destinationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  address: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  travelMode: z.enum(TRAVEL_MODES).default("DRIVE"),
+  // When set, the trip back from the destination to each origin is routed at this time too
+  returnDeparture: departureSpecSchema.optional(),
+  routeModifiers: routeModifiersSchema.optional(),
+});
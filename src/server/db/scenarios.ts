@@ -0,0 +1,124 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import { env } from "~/env";
+
+export interface StoredScenario {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Validated by the scenario router on the way in and out
+  state: unknown;
+}
+
+/**
+ * File-backed database of saved scenarios, in the travel time cache's style: every scenario is
+ * kept in memory and written back as a single JSON file after each change.
+ */
+export const createScenarioStore = (path: string) => {
+  let loading: Promise<Map<string, StoredScenario>> | null = null;
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const read = async () => {
+    try {
+      const raw = await readFile(path, "utf8");
+      return new Map(
+        (JSON.parse(raw) as StoredScenario[]).map((scenario) => [
+          scenario.id,
+          scenario,
+        ]),
+      );
+    } catch (error) {
+      // Unlike the cache, a broken file holds someone's work, so never write over it
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      return new Map<string, StoredScenario>();
+    }
+  };
+
+  // Read once, however many requests arrive before the read finishes; a failed read is retried
+  const load = () =>
+    (loading ??= read().catch((error: unknown) => {
+      loading = null;
+      throw error;
+    }));
+
+  const persist = async () => {
+    const store = await load();
+    await mkdir(dirname(path), { recursive: true });
+    // Write to a temp file first so a crash never leaves half a database behind
+    const tempPath = `${path}.tmp`;
+    await writeFile(tempPath, JSON.stringify([...store.values()]));
+    await rename(tempPath, path);
+  };
+
+  // Serialize writes so concurrent requests don't race on the temp file
+  const save = async () => {
+    pendingWrite = pendingWrite.then(persist, persist);
+    await pendingWrite;
+  };
+
+  return {
+    /** Every scenario, most recently updated first */
+    async list(): Promise<StoredScenario[]> {
+      const store = await load();
+      return [...store.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+
+    async get(id: string): Promise<StoredScenario | null> {
+      const store = await load();
+      return store.get(id) ?? null;
+    },
+
+    async create(name: string, state: unknown): Promise<StoredScenario> {
+      const store = await load();
+      const now = Date.now();
+      const scenario = {
+        id: randomUUID(),
+        name,
+        createdAt: now,
+        updatedAt: now,
+        state,
+      };
+      store.set(scenario.id, scenario);
+      await save();
+      return scenario;
+    },
+
+    async update(
+      id: string,
+      changes: { name?: string; state?: unknown },
+    ): Promise<StoredScenario | null> {
+      const store = await load();
+      const scenario = store.get(id);
+      if (!scenario) return null;
+
+      const updated = {
+        ...scenario,
+        name: changes.name ?? scenario.name,
+        state: changes.state ?? scenario.state,
+        updatedAt: Date.now(),
+      };
+      store.set(id, updated);
+      await save();
+      return updated;
+    },
+
+    async remove(id: string): Promise<boolean> {
+      const store = await load();
+      if (!store.delete(id)) return false;
+      await save();
+      return true;
+    },
+  };
+};
+
+export type ScenarioStore = ReturnType<typeof createScenarioStore>;
+
+let store: ScenarioStore | undefined;
+
+export const getScenarioStore = (): ScenarioStore => {
+  store ??= createScenarioStore(env.SCENARIO_DB_PATH);
+  return store;
+};
@@ -0,0 +1,62 @@
+import { type LatLng } from "~/server/routing";
+
+// Simplified outline of San Francisco's land area, clockwise from Fort Point. Accurate to a few
+// hundred meters, which is below any sensible grid spacing.
+export const SAN_FRANCISCO_BOUNDARY: LatLng[] = [
+  { lat: 37.8106, lng: -122.4771 }, // Fort Point
+  { lat: 37.8055, lng: -122.465 }, // Crissy Field
+  { lat: 37.807, lng: -122.43 }, // Marina / Fort Mason
+  { lat: 37.8087, lng: -122.4098 }, // Pier 39
+  { lat: 37.795, lng: -122.392 }, // Ferry Building
+  { lat: 37.779, lng: -122.388 }, // China Basin
+  { lat: 37.77, lng: -122.387 }, // Mission Bay
+  { lat: 37.76, lng: -122.385 }, // Pier 70
+  { lat: 37.74, lng: -122.375 }, // India Basin
+  { lat: 37.7255, lng: -122.358 }, // Hunters Point
+  { lat: 37.7125, lng: -122.379 }, // Candlestick Point
+  { lat: 37.708, lng: -122.393 }, // County line at the bay
+  { lat: 37.708, lng: -122.502 }, // County line at the ocean
+  { lat: 37.775, lng: -122.511 }, // Ocean Beach
+  { lat: 37.78, lng: -122.5135 }, // Lands End
+  { lat: 37.788, lng: -122.492 }, // Sea Cliff
+];
+
+// Oakland, Berkeley, Emeryville, Albany, Piedmont and Alameda, clockwise from the Albany shoreline
+export const EAST_BAY_BOUNDARY: LatLng[] = [
+  { lat: 37.89, lng: -122.32 }, // Albany Bulb
+  { lat: 37.897, lng: -122.28 }, // Albany Hill
+  { lat: 37.885, lng: -122.235 }, // Grizzly Peak
+  { lat: 37.85, lng: -122.215 }, // Caldecott Tunnel
+  { lat: 37.825, lng: -122.185 }, // Montclair hills
+  { lat: 37.8, lng: -122.155 }, // Skyline Blvd
+  { lat: 37.765, lng: -122.13 }, // Oakland Zoo
+  { lat: 37.735, lng: -122.16 }, // San Leandro border
+  { lat: 37.715, lng: -122.205 }, // Oakland Airport
+  { lat: 37.735, lng: -122.25 }, // Bay Farm Island
+  { lat: 37.757, lng: -122.28 }, // Alameda south shore
+  { lat: 37.775, lng: -122.32 }, // Alameda Point
+  { lat: 37.8, lng: -122.325 }, // Port of Oakland
+  { lat: 37.83, lng: -122.3 }, // Bay Bridge toll plaza
+  { lat: 37.865, lng: -122.315 }, // Berkeley Marina
+];
+
+// Seattle city limits, clockwise from Carkeek Park
+export const SEATTLE_BOUNDARY: LatLng[] = [
+  { lat: 47.734, lng: -122.377 }, // Carkeek Park
+  { lat: 47.734, lng: -122.28 }, // NE 145th St at Lake Washington
+  { lat: 47.68, lng: -122.26 }, // Sand Point
+  { lat: 47.64, lng: -122.27 }, // Madison Park
+  { lat: 47.6, lng: -122.285 }, // Leschi
+  { lat: 47.555, lng: -122.255 }, // Seward Park
+  { lat: 47.51, lng: -122.245 }, // Rainier Beach
+  { lat: 47.495, lng: -122.28 }, // South city limit
+  { lat: 47.5, lng: -122.355 }, // White Center
+  { lat: 47.52, lng: -122.395 }, // Fauntleroy
+  { lat: 47.575, lng: -122.42 }, // Alki Point
+  { lat: 47.59, lng: -122.385 }, // Duwamish Head
+  { lat: 47.585, lng: -122.35 }, // Harbor Island
+  { lat: 47.61, lng: -122.345 }, // Elliott Bay waterfront
+  { lat: 47.63, lng: -122.39 }, // Magnolia Bridge
+  { lat: 47.66, lng: -122.43 }, // Discovery Park
+  { lat: 47.68, lng: -122.405 }, // Shilshole Bay
+];
@@ -0,0 +1,111 @@
+import { env } from "~/env";
+import { type Bounds } from "~/server/regions/types";
+import { getRequestScheduler, type LatLng } from "~/server/routing";
+
+const GEOCODING_API_BASE_URL = "https://maps.googleapis.com";
+
+// Geocoding API response (only the fields we use)
+interface GeocodeResponse {
+  status: string;
+  error_message?: string;
+  results: Array<{
+    formatted_address: string;
+    place_id?: string;
+    types?: string[];
+    // Google only matched part of the query, e.g. a street that exists in several cities
+    partial_match?: boolean;
+    geometry: {
+      location: LatLng;
+    };
+  }>;
+}
+
+export interface GeocodeCandidate extends LatLng {
+  formattedAddress: string;
+  placeId?: string;
+  types: string[];
+  inRegion: boolean;
+  partialMatch: boolean;
+}
+
+const contains = (bounds: Bounds, { lat, lng }: LatLng) =>
+  lat >= bounds.south &&
+  lat <= bounds.north &&
+  lng >= bounds.west &&
+  lng <= bounds.east;
+
+const toCandidates = (
+  results: GeocodeResponse["results"],
+  bounds: Bounds,
+): GeocodeCandidate[] =>
+  results.map((result) => ({
+    formattedAddress: result.formatted_address,
+    placeId: result.place_id,
+    types: result.types ?? [],
+    lat: result.geometry.location.lat,
+    lng: result.geometry.location.lng,
+    inRegion: contains(bounds, result.geometry.location),
+    partialMatch: result.partial_match ?? false,
+  }));
+
+// One Geocoding API request; no match is an empty list rather than an error
+const geocode = async (
+  params: Record<string, string>,
+): Promise<GeocodeResponse["results"]> => {
+  if (!env.GOOGLE_MAPS_API_KEY) {
+    throw new Error("GOOGLE_MAPS_API_KEY is not configured");
+  }
+
+  const query = new URLSearchParams({
+    ...params,
+    key: env.GOOGLE_MAPS_API_KEY,
+  });
+  const response = await getRequestScheduler().fetch(
+    `${env.GOOGLE_API_BASE_URL ?? GEOCODING_API_BASE_URL}/maps/api/geocode/json?${query}`,
+  );
+
+  if (!response.ok) {
+    throw new Error(`Geocoding API error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as GeocodeResponse;
+  if (data.status === "ZERO_RESULTS") return [];
+  if (data.status !== "OK") {
+    throw new Error(`Geocoding failed: ${data.status}`);
+  }
+  return data.results;
+};
+
+/**
+ * Every match Google has for an address, best first: matches inside the region before the rest,
+ * then full before partial matches, otherwise in Google's order. The region only biases the
+ * search, so places outside it still come back.
+ */
+export const geocodeCandidates = async (
+  address: string,
+  bounds: Bounds,
+): Promise<GeocodeCandidate[]> => {
+  const results = await geocode({
+    address,
+    bounds: `${bounds.south},${bounds.west}|${bounds.north},${bounds.east}`,
+  });
+
+  // Array#sort is stable, so Google's own order breaks ties
+  return toCandidates(results, bounds).sort(
+    (a, b) =>
+      Number(b.inRegion) - Number(a.inRegion) ||
+      Number(a.partialMatch) - Number(b.partialMatch),
+  );
+};
+
+/**
+ * The most specific address Google has at a point, or null where it has none (e.g. open water).
+ * Its coordinates are the address's, which can be a little way from the point.
+ */
+export const reverseGeocode = async (
+  { lat, lng }: LatLng,
+  bounds: Bounds,
+): Promise<GeocodeCandidate | null> => {
+  const results = await geocode({ latlng: `${lat},${lng}` });
+  return toCandidates(results, bounds)[0] ?? null;
+};
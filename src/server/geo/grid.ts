@@ -0,0 +1,115 @@
+import { type LatLng } from "~/server/routing";
+
+export type LatticeShape = "square" | "hex";
+
+export interface LatticePoint extends LatLng {
+  row: number;
+  column: number;
+}
+
+const METERS_PER_DEGREE_LAT = 111_320;
+
+/**
+ * Ray casting point-in-polygon test. Good enough for city-sized polygons where the earth's
+ * curvature doesn't matter.
+ */
+export const isInsidePolygon = (point: LatLng, polygon: LatLng[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]!;
+    const b = polygon[j]!;
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng <
+        ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+// The polygon's bounding box and the lattice's step in degrees, for a local equirectangular
+// projection around the middle of the polygon
+const latticeFrame = (
+  polygon: LatLng[],
+  spacingMeters: number,
+  shape: LatticeShape,
+) => {
+  const lats = polygon.map((p) => p.lat);
+  const lngs = polygon.map((p) => p.lng);
+  const south = Math.min(...lats);
+  const north = Math.max(...lats);
+  const west = Math.min(...lngs);
+  const east = Math.max(...lngs);
+
+  const metersPerDegreeLng =
+    METERS_PER_DEGREE_LAT * Math.cos((((south + north) / 2) * Math.PI) / 180);
+  const rowStep =
+    (shape === "hex" ? (spacingMeters * Math.sqrt(3)) / 2 : spacingMeters) /
+    METERS_PER_DEGREE_LAT;
+  const columnStep = spacingMeters / metersPerDegreeLng;
+
+  return { south, north, west, east, rowStep, columnStep };
+};
+
+// Past the poles or across a degenerate box the steps stop making sense, and stepping by them
+// would never reach the far edge
+const hasUsableSteps = ({
+  rowStep,
+  columnStep,
+}: ReturnType<typeof latticeFrame>) =>
+  Number.isFinite(rowStep) &&
+  Number.isFinite(columnStep) &&
+  rowStep > 0 &&
+  columnStep > 0;
+
+/**
+ * How many points the lattice has over the polygon's whole bounding box: an upper bound on what
+ * `generateLattice` returns, worked out without laying the points. Infinity when no lattice can
+ * be laid over the polygon.
+ */
+export const latticeBoxSize = (
+  polygon: LatLng[],
+  spacingMeters: number,
+  shape: LatticeShape,
+) => {
+  const frame = latticeFrame(polygon, spacingMeters, shape);
+  if (!hasUsableSteps(frame)) return Infinity;
+  const { south, north, west, east, rowStep, columnStep } = frame;
+  const size =
+    (Math.floor((north - south) / rowStep) + 1) *
+    (Math.floor((east - west) / columnStep) + 1);
+  return Number.isFinite(size) && size > 0 ? size : Infinity;
+};
+
+/**
+ * Lay a square or hex lattice with the given spacing over the polygon's bounding box and keep the
+ * points inside it. Hex lattices offset every other row by half a step, which covers an area more
+ * evenly for the same number of points.
+ */
+export const generateLattice = (
+  polygon: LatLng[],
+  spacingMeters: number,
+  shape: LatticeShape,
+): LatticePoint[] => {
+  const frame = latticeFrame(polygon, spacingMeters, shape);
+  if (!hasUsableSteps(frame)) return [];
+  const { south, north, west, east, rowStep, columnStep } = frame;
+
+  const points: LatticePoint[] = [];
+  for (let row = 0; south + row * rowStep <= north; row++) {
+    const lat = south + row * rowStep;
+    const offset = shape === "hex" && row % 2 === 1 ? columnStep / 2 : 0;
+
+    for (
+      let column = 0;
+      west + offset + column * columnStep <= east;
+      column++
+    ) {
+      const point = { lat, lng: west + offset + column * columnStep };
+      if (isInsidePolygon(point, polygon)) {
+        points.push({ ...point, row, column });
+      }
+    }
+  }
+  return points;
+};
@@ -0,0 +1,222 @@
+import { readFileSync } from "node:fs";
+import { createServer, type IncomingMessage } from "node:http";
+import { type AddressInfo } from "node:net";
+import { join } from "node:path";
+
+/**
+ * A matrix element exactly as the Routes API sends it, minus the indices, e.g.
+ * `{ "duration": "1200s", "distanceMeters": 15000, "condition": "ROUTE_EXISTS" }` or
+ * `{ "status": { "code": 5, "message": "Not found" } }`.
+ */
+type RouteElementFixture = Record<string, unknown>;
+
+/** A raw HTTP response, for errors and empty or malformed bodies */
+interface RawResponseFixture {
+  status: number;
+  body: string;
+}
+
+/**
+ * What the server answers for one destination. Waypoints are keyed like the fixture provider's
+ * recordings: the address, or "lat,lng" with 4 decimals. A `response` answers the whole request
+ * that includes this destination; otherwise each origin gets its element from `elements`, falling
+ * back to the "*" element and then to ROUTE_NOT_FOUND.
+ */
+interface RouteMatrixFixture {
+  destination: string;
+  // Matches any travel mode when unset
+  travelMode?: string;
+  response?: RawResponseFixture;
+  elements?: Record<string, RouteElementFixture>;
+}
+
+/**
+ * Geocoding JSON API bodies, or a raw response, by address or, for reverse lookups, by "lat,lng"
+ * with 4 decimals
+ */
+type GeocodeFixtures = Record<
+  string,
+  Record<string, unknown> | { response: RawResponseFixture }
+>;
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingMessage["headers"];
+  body: unknown;
+}
+
+interface GoogleWaypoint {
+  waypoint?: {
+    address?: string;
+    location?: { latLng?: { latitude: number; longitude: number } };
+  };
+}
+
+interface RouteMatrixBody {
+  origins?: GoogleWaypoint[];
+  destinations?: GoogleWaypoint[];
+  travelMode?: string;
+}
+
+const waypointKeys = ({ waypoint }: GoogleWaypoint) => {
+  const latLng = waypoint?.location?.latLng;
+  return [
+    ...(waypoint?.address ? [waypoint.address] : []),
+    ...(latLng
+      ? [`${latLng.latitude.toFixed(4)},${latLng.longitude.toFixed(4)}`]
+      : []),
+  ];
+};
+
+const readJson = <T>(path: string, fallback: T): T => {
+  try {
+    return JSON.parse(readFileSync(path, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+};
+
+const readBody = async (request: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? (JSON.parse(text) as unknown) : undefined;
+};
+
+const json = (body: unknown, status = 200): RawResponseFixture => ({
+  status,
+  body: JSON.stringify(body),
+});
+
+/**
+ * Local stand-in for the Routes API `computeRouteMatrix` and the Geocoding JSON API, answering
+ * from `route-matrix.json` and `geocode.json` in `fixtureDir`. Point `GOOGLE_API_BASE_URL` at
+ * its `url`. Every request is kept in `requests` so callers can check what was sent.
+ */
+export const startGoogleMockServer = async (fixtureDir: string, port = 0) => {
+  const routeFixtures = readJson<RouteMatrixFixture[]>(
+    join(fixtureDir, "route-matrix.json"),
+    [],
+  );
+  const geocodeFixtures = readJson<GeocodeFixtures>(
+    join(fixtureDir, "geocode.json"),
+    {},
+  );
+  const requests: MockRequest[] = [];
+
+  const routeMatrix = (
+    body: RouteMatrixBody,
+    headers: IncomingMessage["headers"],
+  ): RawResponseFixture => {
+    if (!headers["x-goog-api-key"]) {
+      return json({ error: { code: 403, message: "API key missing" } }, 403);
+    }
+    if (!headers["x-goog-fieldmask"]) {
+      return json({ error: { code: 400, message: "FieldMask missing" } }, 400);
+    }
+
+    const origins = body.origins ?? [];
+    const destinations = (body.destinations ?? []).map((destination) => {
+      const keys = waypointKeys(destination);
+      return routeFixtures.find(
+        (fixture) =>
+          keys.includes(fixture.destination) &&
+          (fixture.travelMode ?? body.travelMode) === body.travelMode,
+      );
+    });
+
+    const raw = destinations.find((fixture) => fixture?.response)?.response;
+    if (raw) return raw;
+
+    return json(
+      origins.flatMap((origin, originIndex) =>
+        destinations.map((fixture, destinationIndex) => {
+          const elements = fixture?.elements ?? {};
+          const key = waypointKeys(origin).find((k) => elements[k]);
+          return {
+            originIndex,
+            destinationIndex,
+            ...(elements[key ?? "*"] ?? { condition: "ROUTE_NOT_FOUND" }),
+          };
+        }),
+      ),
+    );
+  };
+
+  const geocode = (query: URLSearchParams): RawResponseFixture => {
+    if (!query.get("key")) {
+      return json({
+        status: "REQUEST_DENIED",
+        error_message: "You must use an API key",
+        results: [],
+      });
+    }
+    const latlng = query.get("latlng")?.split(",").map(Number);
+    const key = latlng
+      ? latlng.map((coordinate) => coordinate.toFixed(4)).join(",")
+      : (query.get("address") ?? "");
+    const fixture = geocodeFixtures[key];
+    if (!fixture) return json({ status: "ZERO_RESULTS", results: [] });
+    return "response" in fixture
+      ? (fixture.response as RawResponseFixture)
+      : json(fixture);
+  };
+
+  const server = createServer((request, response) => {
+    void (async () => {
+      const url = new URL(request.url ?? "/", "http://localhost");
+      let answer: RawResponseFixture;
+      try {
+        const body = await readBody(request);
+        requests.push({
+          method: request.method ?? "GET",
+          path: url.pathname,
+          query: url.searchParams,
+          headers: request.headers,
+          body,
+        });
+
+        if (
+          request.method === "POST" &&
+          url.pathname === "/distanceMatrix/v2:computeRouteMatrix"
+        ) {
+          answer = routeMatrix(body as RouteMatrixBody, request.headers);
+        } else if (url.pathname === "/maps/api/geocode/json") {
+          answer = geocode(url.searchParams);
+        } else {
+          answer = json({ error: { code: 404, message: "Not found" } }, 404);
+        }
+      } catch (error) {
+        answer = json({ error: { code: 400, message: String(error) } }, 400);
+      }
+
+      response.writeHead(answer.status, {
+        "Content-Type": "application/json",
+      });
+      response.end(answer.body);
+    })();
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(port, "127.0.0.1", resolve),
+  );
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${boundPort}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        // Keep-alive connections would hold the server open
+        server.closeAllConnections();
+      }),
+  };
+};
+
+export type GoogleMockServer = Awaited<
+  ReturnType<typeof startGoogleMockServer>
+>;
@@ -0,0 +1,196 @@
+import { type CatalogOrigin } from "./types";
+
+// Oakland, Berkeley, Alameda and their neighbors, picked along BART and the main commute corridors
+export const EAST_BAY_ORIGINS: CatalogOrigin[] = [
+  // Oakland core
+  {
+    id: "downtown-oakland",
+    name: "Downtown Oakland",
+    address: "Broadway & 14th St, Oakland, CA",
+    lat: 37.8044,
+    lng: -122.2712,
+  },
+  {
+    id: "uptown-oakland",
+    name: "Uptown Oakland",
+    address: "Telegraph Ave & 20th St, Oakland, CA",
+    lat: 37.8102,
+    lng: -122.2687,
+  },
+  {
+    id: "jack-london-square",
+    name: "Jack London Square",
+    address: "Jack London Square, Oakland, CA",
+    lat: 37.7946,
+    lng: -122.2769,
+  },
+  {
+    id: "lake-merritt",
+    name: "Lake Merritt",
+    address: "Grand Ave & Harrison St, Oakland, CA",
+    lat: 37.8105,
+    lng: -122.2612,
+  },
+  {
+    id: "adams-point",
+    name: "Adams Point",
+    address: "Grand Ave & Perkins St, Oakland, CA",
+    lat: 37.8116,
+    lng: -122.2553,
+  },
+  {
+    id: "grand-lake",
+    name: "Grand Lake",
+    address: "Grand Ave & Lake Park Ave, Oakland, CA",
+    lat: 37.8117,
+    lng: -122.2475,
+  },
+  {
+    id: "west-oakland",
+    name: "West Oakland",
+    address: "7th St & Mandela Pkwy, Oakland, CA",
+    lat: 37.8046,
+    lng: -122.2951,
+  },
+
+  // North Oakland
+  {
+    id: "temescal",
+    name: "Temescal",
+    address: "Telegraph Ave & 51st St, Oakland, CA",
+    lat: 37.8363,
+    lng: -122.2625,
+  },
+  {
+    id: "rockridge",
+    name: "Rockridge",
+    address: "College Ave & Claremont Ave, Oakland, CA",
+    lat: 37.8445,
+    lng: -122.2514,
+  },
+  {
+    id: "piedmont-avenue",
+    name: "Piedmont Avenue",
+    address: "Piedmont Ave & 40th St, Oakland, CA",
+    lat: 37.8259,
+    lng: -122.253,
+  },
+  {
+    id: "piedmont",
+    name: "Piedmont",
+    address: "Highland Ave & Vista Ave, Piedmont, CA",
+    lat: 37.8244,
+    lng: -122.2316,
+  },
+  {
+    id: "montclair",
+    name: "Montclair",
+    address: "Mountain Blvd & Antioch Ct, Oakland, CA",
+    lat: 37.8271,
+    lng: -122.2106,
+  },
+
+  // East Oakland (along BART)
+  {
+    id: "dimond-district",
+    name: "Dimond District",
+    address: "MacArthur Blvd & Fruitvale Ave, Oakland, CA",
+    lat: 37.8002,
+    lng: -122.2151,
+  },
+  {
+    id: "laurel-district",
+    name: "Laurel District",
+    address: "MacArthur Blvd & 38th Ave, Oakland, CA",
+    lat: 37.7937,
+    lng: -122.2087,
+  },
+  {
+    id: "fruitvale",
+    name: "Fruitvale",
+    address: "Fruitvale Ave & International Blvd, Oakland, CA",
+    lat: 37.7749,
+    lng: -122.2243,
+  },
+  {
+    id: "coliseum",
+    name: "Coliseum",
+    address: "San Leandro St & 73rd Ave, Oakland, CA",
+    lat: 37.7537,
+    lng: -122.1968,
+  },
+
+  // Berkeley, Albany and Emeryville
+  {
+    id: "emeryville",
+    name: "Emeryville",
+    address: "40th St & San Pablo Ave, Emeryville, CA",
+    lat: 37.8311,
+    lng: -122.2822,
+  },
+  {
+    id: "downtown-berkeley",
+    name: "Downtown Berkeley",
+    address: "Shattuck Ave & Center St, Berkeley, CA",
+    lat: 37.8701,
+    lng: -122.2681,
+  },
+  {
+    id: "north-berkeley",
+    name: "North Berkeley",
+    address: "Shattuck Ave & Vine St, Berkeley, CA",
+    lat: 37.8801,
+    lng: -122.269,
+  },
+  {
+    id: "elmwood",
+    name: "Elmwood",
+    address: "College Ave & Ashby Ave, Berkeley, CA",
+    lat: 37.8579,
+    lng: -122.2528,
+  },
+  {
+    id: "south-berkeley",
+    name: "South Berkeley",
+    address: "Adeline St & Ashby Ave, Berkeley, CA",
+    lat: 37.853,
+    lng: -122.27,
+  },
+  {
+    id: "west-berkeley",
+    name: "West Berkeley",
+    address: "4th St & Hearst Ave, Berkeley, CA",
+    lat: 37.8709,
+    lng: -122.3001,
+  },
+  {
+    id: "albany",
+    name: "Albany",
+    address: "Solano Ave & San Pablo Ave, Albany, CA",
+    lat: 37.891,
+    lng: -122.299,
+  },
+
+  // Alameda
+  {
+    id: "park-street",
+    name: "Park Street",
+    address: "Park St & Santa Clara Ave, Alameda, CA",
+    lat: 37.7652,
+    lng: -122.2424,
+  },
+  {
+    id: "alameda-west-end",
+    name: "Alameda West End",
+    address: "Webster St & Santa Clara Ave, Alameda, CA",
+    lat: 37.7724,
+    lng: -122.2776,
+  },
+  {
+    id: "bay-farm-island",
+    name: "Bay Farm Island",
+    address: "Island Dr & Robert Davey Jr Dr, Alameda, CA",
+    lat: 37.738,
+    lng: -122.2465,
+  },
+];
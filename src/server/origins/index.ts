@@ -0,0 +1,44 @@
+import { generateLattice, type LatticeShape } from "~/server/geo/grid";
+import { type Region } from "~/server/regions/types";
+
+import { type CatalogOrigin, type Origin } from "./types";
+
+export * from "./types";
+
+export const getOriginCatalog = (region: Region): CatalogOrigin[] =>
+  region.origins;
+
+const squaredDistance = (a: Origin, b: { lat: number; lng: number }) =>
+  (a.lat - b.lat) ** 2 + (a.lng - b.lng) ** 2;
+
+/**
+ * Lattice of origins clipped to the region's boundary (or a custom polygon), each named after the
+ * closest catalog origin so tooltips still read like neighborhoods.
+ */
+export const generateGridOrigins = ({
+  region,
+  spacingMeters,
+  shape,
+  polygon = region.boundary,
+}: {
+  region: Region;
+  spacingMeters: number;
+  shape: LatticeShape;
+  polygon?: { lat: number; lng: number }[];
+}): Origin[] => {
+  const catalog = getOriginCatalog(region);
+
+  return generateLattice(polygon, spacingMeters, shape).map((point) => {
+    const nearest = catalog.reduce((best, origin) =>
+      squaredDistance(origin, point) < squaredDistance(best, point)
+        ? origin
+        : best,
+    );
+    return {
+      id: `grid-${region.id}-${shape}-${spacingMeters}-r${point.row}-c${point.column}`,
+      name: `Near ${nearest.name}`,
+      lat: point.lat,
+      lng: point.lng,
+    };
+  });
+};
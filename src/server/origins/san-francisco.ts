@@ -0,0 +1,383 @@
+import { type CatalogOrigin } from "./types";
+
+// Real San Francisco addresses for accurate routing (optimized for East Bay commutes)
+export const SAN_FRANCISCO_ORIGINS: CatalogOrigin[] = [
+  // Major intersections and landmarks
+  {
+    id: "financial-district",
+    name: "Financial District",
+    address: "Market St & Montgomery St, San Francisco, CA",
+    lat: 37.7944,
+    lng: -122.4019,
+  },
+  {
+    id: "union-square",
+    name: "Union Square",
+    address: "Union Square, San Francisco, CA",
+    lat: 37.7879,
+    lng: -122.4075,
+  },
+  {
+    id: "chinatown",
+    name: "Chinatown",
+    address: "Chinatown, San Francisco, CA",
+    lat: 37.7901,
+    lng: -122.4046,
+  },
+  {
+    id: "north-beach",
+    name: "North Beach",
+    address: "North Beach, San Francisco, CA",
+    lat: 37.8006,
+    lng: -122.4103,
+  },
+  {
+    id: "fisherman-s-wharf",
+    name: "Fisherman's Wharf",
+    address: "Fisherman's Wharf, San Francisco, CA",
+    lat: 37.8084,
+    lng: -122.4089,
+  },
+
+  // SOMA and Mission Bay (close to Bay Bridge)
+  {
+    id: "soma",
+    name: "SOMA",
+    address: "SOMA, San Francisco, CA",
+    lat: 37.7749,
+    lng: -122.4194,
+  },
+  {
+    id: "mission-bay",
+    name: "Mission Bay",
+    address: "Mission Bay, San Francisco, CA",
+    lat: 37.7685,
+    lng: -122.3901,
+  },
+  {
+    id: "potrero-hill",
+    name: "Potrero Hill",
+    address: "Potrero Hill, San Francisco, CA",
+    lat: 37.7659,
+    lng: -122.4077,
+  },
+
+  // Mission District (central)
+  {
+    id: "mission-district",
+    name: "Mission District",
+    address: "Mission District, San Francisco, CA",
+    lat: 37.7599,
+    lng: -122.4148,
+  },
+  {
+    id: "16th-st-mission",
+    name: "16th St Mission",
+    address: "16th Street Mission BART, San Francisco, CA",
+    lat: 37.7647,
+    lng: -122.4194,
+  },
+  {
+    id: "24th-st-mission",
+    name: "24th St Mission",
+    address: "24th Street Mission BART, San Francisco, CA",
+    lat: 37.7521,
+    lng: -122.4186,
+  },
+
+  // Castro and Noe Valley
+  {
+    id: "castro",
+    name: "Castro",
+    address: "Castro District, San Francisco, CA",
+    lat: 37.7609,
+    lng: -122.435,
+  },
+  {
+    id: "noe-valley",
+    name: "Noe Valley",
+    address: "Noe Valley, San Francisco, CA",
+    lat: 37.7503,
+    lng: -122.4336,
+  },
+
+  // Hayes Valley and Haight
+  {
+    id: "hayes-valley",
+    name: "Hayes Valley",
+    address: "Hayes Valley, San Francisco, CA",
+    lat: 37.776,
+    lng: -122.4236,
+  },
+  {
+    id: "haight-ashbury",
+    name: "Haight-Ashbury",
+    address: "Haight Ashbury, San Francisco, CA",
+    lat: 37.7692,
+    lng: -122.4481,
+  },
+
+  // Richmond District (key locations)
+  {
+    id: "inner-richmond",
+    name: "Inner Richmond",
+    address: "Inner Richmond, San Francisco, CA",
+    lat: 37.78,
+    lng: -122.4647,
+  },
+  {
+    id: "outer-richmond",
+    name: "Outer Richmond",
+    address: "Outer Richmond, San Francisco, CA",
+    lat: 37.7756,
+    lng: -122.4944,
+  },
+  {
+    id: "richmond-geary",
+    name: "Richmond (Geary)",
+    address: "Geary Blvd & 19th Ave, San Francisco, CA",
+    lat: 37.7816,
+    lng: -122.4751,
+  },
+
+  // Sunset District (key locations)
+  {
+    id: "inner-sunset",
+    name: "Inner Sunset",
+    address: "Inner Sunset, San Francisco, CA",
+    lat: 37.7644,
+    lng: -122.4751,
+  },
+  {
+    id: "outer-sunset",
+    name: "Outer Sunset",
+    address: "Outer Sunset, San Francisco, CA",
+    lat: 37.7534,
+    lng: -122.4984,
+  },
+
+  // Pacific Heights and Marina
+  {
+    id: "pacific-heights",
+    name: "Pacific Heights",
+    address: "Pacific Heights, San Francisco, CA",
+    lat: 37.7956,
+    lng: -122.4339,
+  },
+  {
+    id: "marina-district",
+    name: "Marina District",
+    address: "Marina District, San Francisco, CA",
+    lat: 37.8021,
+    lng: -122.4378,
+  },
+  {
+    id: "russian-hill",
+    name: "Russian Hill",
+    address: "Russian Hill, San Francisco, CA",
+    lat: 37.8014,
+    lng: -122.4189,
+  },
+  {
+    id: "nob-hill",
+    name: "Nob Hill",
+    address: "Nob Hill, San Francisco, CA",
+    lat: 37.7918,
+    lng: -122.4156,
+  },
+
+  // Additional North Beach and Marina points
+  {
+    id: "north-beach-broadway",
+    name: "North Beach (Broadway)",
+    address: "Columbus Ave & Broadway, San Francisco, CA",
+    lat: 37.7983,
+    lng: -122.4067,
+  },
+  {
+    id: "marina-chestnut",
+    name: "Marina (Chestnut)",
+    address: "Chestnut St & Fillmore St, San Francisco, CA",
+    lat: 37.8003,
+    lng: -122.4325,
+  },
+  {
+    id: "palace-of-fine-arts",
+    name: "Palace of Fine Arts",
+    address: "Palace of Fine Arts, San Francisco, CA",
+    lat: 37.8023,
+    lng: -122.4486,
+  },
+
+  // Additional Pacific Heights points
+  {
+    id: "pac-heights-fillmore",
+    name: "Pac Heights (Fillmore)",
+    address: "Fillmore St & California St, San Francisco, CA",
+    lat: 37.7889,
+    lng: -122.4331,
+  },
+  {
+    id: "pac-heights-divisadero",
+    name: "Pac Heights (Divisadero)",
+    address: "Divisadero St & California St, San Francisco, CA",
+    lat: 37.7889,
+    lng: -122.4378,
+  },
+
+  // Additional Richmond District points
+  {
+    id: "inner-richmond-clement",
+    name: "Inner Richmond (Clement)",
+    address: "Clement St & 6th Ave, San Francisco, CA",
+    lat: 37.7828,
+    lng: -122.4631,
+  },
+  {
+    id: "mid-richmond-clement",
+    name: "Mid Richmond (Clement)",
+    address: "Clement St & 19th Ave, San Francisco, CA",
+    lat: 37.7828,
+    lng: -122.4751,
+  },
+
+  // Western Addition and Fillmore
+  {
+    id: "western-addition",
+    name: "Western Addition",
+    address: "Western Addition, San Francisco, CA",
+    lat: 37.7844,
+    lng: -122.4394,
+  },
+  {
+    id: "fillmore",
+    name: "Fillmore",
+    address: "Fillmore District, San Francisco, CA",
+    lat: 37.7844,
+    lng: -122.4331,
+  },
+  {
+    id: "japantown",
+    name: "Japantown",
+    address: "Japantown, San Francisco, CA",
+    lat: 37.7856,
+    lng: -122.4297,
+  },
+  {
+    id: "alamo-square",
+    name: "Alamo Square",
+    address: "Alamo Square, San Francisco, CA",
+    lat: 37.7756,
+    lng: -122.4339,
+  },
+
+  // Presidio Area
+  {
+    id: "presidio",
+    name: "Presidio",
+    address: "Presidio, San Francisco, CA",
+    lat: 37.8021,
+    lng: -122.4647,
+  },
+  {
+    id: "presidio-heights",
+    name: "Presidio Heights",
+    address: "Presidio Heights, San Francisco, CA",
+    lat: 37.7889,
+    lng: -122.4594,
+  },
+
+  // Central Areas
+  {
+    id: "west-portal",
+    name: "West Portal",
+    address: "West Portal, San Francisco, CA",
+    lat: 37.7394,
+    lng: -122.4661,
+  },
+  {
+    id: "twin-peaks",
+    name: "Twin Peaks",
+    address: "Twin Peaks, San Francisco, CA",
+    lat: 37.7544,
+    lng: -122.4478,
+  },
+
+  // BART Stations (crucial for East Bay commutes)
+  {
+    id: "powell-bart",
+    name: "Powell BART",
+    address: "Powell Street BART, San Francisco, CA",
+    lat: 37.7844,
+    lng: -122.4078,
+  },
+  {
+    id: "montgomery-bart",
+    name: "Montgomery BART",
+    address: "Montgomery Street BART, San Francisco, CA",
+    lat: 37.7889,
+    lng: -122.4019,
+  },
+  {
+    id: "civic-center-bart",
+    name: "Civic Center BART",
+    address: "Civic Center BART, San Francisco, CA",
+    lat: 37.7794,
+    lng: -122.4131,
+  },
+
+  // Universities and landmarks
+  {
+    id: "ucsf-parnassus",
+    name: "UCSF Parnassus",
+    address: "UCSF Parnassus, San Francisco, CA",
+    lat: 37.7629,
+    lng: -122.4583,
+  },
+  {
+    id: "university-of-san-francisco",
+    name: "University of San Francisco",
+    address: "USF, San Francisco, CA",
+    lat: 37.7766,
+    lng: -122.4491,
+  },
+  {
+    id: "golden-gate-park",
+    name: "Golden Gate Park",
+    address: "Golden Gate Park, San Francisco, CA",
+    lat: 37.7694,
+    lng: -122.4862,
+  },
+
+  // Additional key streets and areas
+  {
+    id: "van-ness-corridor",
+    name: "Van Ness Corridor",
+    address: "Van Ness Ave & Geary St, San Francisco, CA",
+    lat: 37.787,
+    lng: -122.4208,
+  },
+  {
+    id: "castro-station",
+    name: "Castro Station",
+    address: "Market St & Castro St, San Francisco, CA",
+    lat: 37.7626,
+    lng: -122.4348,
+  },
+  {
+    id: "inner-sunset-irving",
+    name: "Inner Sunset (Irving)",
+    address: "Irving St & 19th Ave, San Francisco, CA",
+    lat: 37.7644,
+    lng: -122.4751,
+  },
+
+  // Southern Mission (close to East Bay)
+  {
+    id: "dogpatch",
+    name: "Dogpatch",
+    address: "Dogpatch, San Francisco, CA",
+    lat: 37.7575,
+    lng: -122.3886,
+  },
+];
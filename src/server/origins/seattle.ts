@@ -0,0 +1,201 @@
+import { type CatalogOrigin } from "./types";
+
+// Seattle neighborhoods, one or two points each, weighted towards the main transit corridors
+export const SEATTLE_ORIGINS: CatalogOrigin[] = [
+  // Downtown and nearby
+  {
+    id: "downtown-seattle",
+    name: "Downtown Seattle",
+    address: "4th Ave & Pike St, Seattle, WA",
+    lat: 47.6105,
+    lng: -122.338,
+  },
+  {
+    id: "belltown",
+    name: "Belltown",
+    address: "2nd Ave & Bell St, Seattle, WA",
+    lat: 47.6146,
+    lng: -122.3465,
+  },
+  {
+    id: "south-lake-union",
+    name: "South Lake Union",
+    address: "Westlake Ave N & Harrison St, Seattle, WA",
+    lat: 47.6223,
+    lng: -122.3384,
+  },
+  {
+    id: "pioneer-square",
+    name: "Pioneer Square",
+    address: "1st Ave & Yesler Way, Seattle, WA",
+    lat: 47.6016,
+    lng: -122.3343,
+  },
+  {
+    id: "first-hill",
+    name: "First Hill",
+    address: "Madison St & Boren Ave, Seattle, WA",
+    lat: 47.6087,
+    lng: -122.3248,
+  },
+  {
+    id: "capitol-hill",
+    name: "Capitol Hill",
+    address: "Broadway E & E John St, Seattle, WA",
+    lat: 47.619,
+    lng: -122.321,
+  },
+  {
+    id: "queen-anne",
+    name: "Queen Anne",
+    address: "Queen Anne Ave N & W Galer St, Seattle, WA",
+    lat: 47.6317,
+    lng: -122.3569,
+  },
+  {
+    id: "central-district",
+    name: "Central District",
+    address: "23rd Ave & E Union St, Seattle, WA",
+    lat: 47.613,
+    lng: -122.3025,
+  },
+
+  // North of the Ship Canal
+  {
+    id: "fremont",
+    name: "Fremont",
+    address: "Fremont Ave N & N 35th St, Seattle, WA",
+    lat: 47.651,
+    lng: -122.35,
+  },
+  {
+    id: "wallingford",
+    name: "Wallingford",
+    address: "N 45th St & Wallingford Ave N, Seattle, WA",
+    lat: 47.6614,
+    lng: -122.3355,
+  },
+  {
+    id: "university-district",
+    name: "University District",
+    address: "University Way NE & NE 45th St, Seattle, WA",
+    lat: 47.6615,
+    lng: -122.3131,
+  },
+  {
+    id: "ballard",
+    name: "Ballard",
+    address: "NW Market St & Ballard Ave NW, Seattle, WA",
+    lat: 47.6687,
+    lng: -122.384,
+  },
+  {
+    id: "green-lake",
+    name: "Green Lake",
+    address: "E Green Lake Way N & NE 71st St, Seattle, WA",
+    lat: 47.679,
+    lng: -122.325,
+  },
+  {
+    id: "ravenna",
+    name: "Ravenna",
+    address: "NE 65th St & 25th Ave NE, Seattle, WA",
+    lat: 47.676,
+    lng: -122.3005,
+  },
+  {
+    id: "greenwood",
+    name: "Greenwood",
+    address: "Greenwood Ave N & N 85th St, Seattle, WA",
+    lat: 47.6905,
+    lng: -122.3553,
+  },
+  {
+    id: "northgate",
+    name: "Northgate",
+    address: "NE Northgate Way & 5th Ave NE, Seattle, WA",
+    lat: 47.7064,
+    lng: -122.3235,
+  },
+  {
+    id: "lake-city",
+    name: "Lake City",
+    address: "Lake City Way NE & NE 125th St, Seattle, WA",
+    lat: 47.7195,
+    lng: -122.295,
+  },
+
+  // Lake Washington side
+  {
+    id: "montlake",
+    name: "Montlake",
+    address: "24th Ave E & E Lynn St, Seattle, WA",
+    lat: 47.64,
+    lng: -122.302,
+  },
+  {
+    id: "madison-park",
+    name: "Madison Park",
+    address: "E Madison St & 42nd Ave E, Seattle, WA",
+    lat: 47.6355,
+    lng: -122.2775,
+  },
+  {
+    id: "mount-baker",
+    name: "Mount Baker",
+    address: "S McClellan St & Rainier Ave S, Seattle, WA",
+    lat: 47.5773,
+    lng: -122.2985,
+  },
+  {
+    id: "columbia-city",
+    name: "Columbia City",
+    address: "Rainier Ave S & S Edmunds St, Seattle, WA",
+    lat: 47.5597,
+    lng: -122.2866,
+  },
+  {
+    id: "rainier-beach",
+    name: "Rainier Beach",
+    address: "Rainier Ave S & S Henderson St, Seattle, WA",
+    lat: 47.5226,
+    lng: -122.2682,
+  },
+
+  // South and West Seattle
+  {
+    id: "beacon-hill",
+    name: "Beacon Hill",
+    address: "Beacon Ave S & S Lander St, Seattle, WA",
+    lat: 47.579,
+    lng: -122.3115,
+  },
+  {
+    id: "georgetown",
+    name: "Georgetown",
+    address: "Airport Way S & S Vale St, Seattle, WA",
+    lat: 47.5475,
+    lng: -122.3215,
+  },
+  {
+    id: "west-seattle-junction",
+    name: "West Seattle Junction",
+    address: "California Ave SW & SW Alaska St, Seattle, WA",
+    lat: 47.5612,
+    lng: -122.3868,
+  },
+  {
+    id: "alki",
+    name: "Alki",
+    address: "Alki Ave SW & 61st Ave SW, Seattle, WA",
+    lat: 47.579,
+    lng: -122.409,
+  },
+  {
+    id: "magnolia",
+    name: "Magnolia",
+    address: "W McGraw St & 34th Ave W, Seattle, WA",
+    lat: 47.6395,
+    lng: -122.399,
+  },
+];
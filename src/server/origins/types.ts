@@ -0,0 +1,15 @@
+import { type LatLng } from "~/server/routing";
+
+/**
+ * A place people might live. Catalog origins are hand-picked and have an address; generated grid
+ * points only have coordinates.
+ */
+export interface Origin extends LatLng {
+  id: string;
+  name: string;
+  address?: string;
+}
+
+export interface CatalogOrigin extends Origin {
+  address: string;
+}
@@ -0,0 +1,128 @@
+import {
+  EAST_BAY_BOUNDARY,
+  SAN_FRANCISCO_BOUNDARY,
+  SEATTLE_BOUNDARY,
+} from "~/server/geo/boundaries";
+import { EAST_BAY_ORIGINS } from "~/server/origins/east-bay";
+import { SAN_FRANCISCO_ORIGINS } from "~/server/origins/san-francisco";
+import { SEATTLE_ORIGINS } from "~/server/origins/seattle";
+
+import { type Region } from "./types";
+
+export * from "./types";
+
+export const DEFAULT_REGION_ID = "san-francisco";
+
+export const REGIONS: Region[] = [
+  {
+    id: "san-francisco",
+    name: "San Francisco",
+    bounds: { south: 37.708, west: -122.5135, north: 37.8106, east: -122.358 },
+    center: { lat: 37.7749, lng: -122.4194 },
+    zoom: 12,
+    timeZone: "America/Los_Angeles",
+    boundary: SAN_FRANCISCO_BOUNDARY,
+    origins: SAN_FRANCISCO_ORIGINS,
+    defaultDestinations: [
+      {
+        id: "oakland-mandela",
+        name: "Oakland Office",
+        address: "2140 Mandela Pkwy, Oakland, CA 94607",
+        lat: 37.8199,
+        lng: -122.2946,
+        weight: 5,
+      },
+      {
+        id: "palo-alto",
+        name: "Palo Alto Office",
+        address: "University Ave, Palo Alto, CA 94301",
+        lat: 37.4419,
+        lng: -122.143,
+        weight: 2,
+      },
+      {
+        id: "san-jose",
+        name: "San Jose Client",
+        address: "Downtown San Jose, CA 95113",
+        lat: 37.3382,
+        lng: -121.8863,
+        weight: 1,
+      },
+    ],
+  },
+  {
+    id: "east-bay",
+    name: "East Bay",
+    bounds: { south: 37.715, west: -122.325, north: 37.897, east: -122.13 },
+    center: { lat: 37.8105, lng: -122.2541 },
+    zoom: 12,
+    timeZone: "America/Los_Angeles",
+    boundary: EAST_BAY_BOUNDARY,
+    origins: EAST_BAY_ORIGINS,
+    defaultDestinations: [
+      {
+        id: "oakland-mandela",
+        name: "Oakland Office",
+        address: "2140 Mandela Pkwy, Oakland, CA 94607",
+        lat: 37.8199,
+        lng: -122.2946,
+        weight: 5,
+      },
+      {
+        id: "sf-financial-district",
+        name: "San Francisco Office",
+        address: "Market St & Montgomery St, San Francisco, CA 94104",
+        lat: 37.7894,
+        lng: -122.4011,
+        weight: 2,
+      },
+      {
+        id: "palo-alto",
+        name: "Palo Alto Office",
+        address: "University Ave, Palo Alto, CA 94301",
+        lat: 37.4419,
+        lng: -122.143,
+        weight: 1,
+      },
+    ],
+  },
+  {
+    id: "seattle",
+    name: "Seattle",
+    bounds: { south: 47.495, west: -122.43, north: 47.734, east: -122.245 },
+    center: { lat: 47.6205, lng: -122.3351 },
+    zoom: 11,
+    timeZone: "America/Los_Angeles",
+    boundary: SEATTLE_BOUNDARY,
+    origins: SEATTLE_ORIGINS,
+    defaultDestinations: [
+      {
+        id: "south-lake-union",
+        name: "Seattle Office",
+        address: "2121 7th Ave, Seattle, WA 98121",
+        lat: 47.6175,
+        lng: -122.3376,
+        weight: 5,
+      },
+      {
+        id: "redmond",
+        name: "Redmond Client",
+        address: "One Microsoft Way, Redmond, WA 98052",
+        lat: 47.6423,
+        lng: -122.1391,
+        weight: 2,
+      },
+      {
+        id: "bellevue",
+        name: "Bellevue Client",
+        address: "Bellevue Square, Bellevue, WA 98004",
+        lat: 47.6163,
+        lng: -122.2035,
+        weight: 1,
+      },
+    ],
+  },
+];
+
+export const getRegion = (id: string): Region | undefined =>
+  REGIONS.find((region) => region.id === id);
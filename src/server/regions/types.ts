@@ -0,0 +1,34 @@
+import { type CatalogOrigin } from "~/server/origins/types";
+import { type LatLng } from "~/server/routing";
+
+export interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface DefaultDestination extends LatLng {
+  id: string;
+  name: string;
+  address: string;
+  /** Trips per week */
+  weight: number;
+}
+
+/**
+ * An area someone might move to: where the map opens, the outline generated grids are clipped to
+ * and the neighborhoods offered as origins.
+ */
+export interface Region {
+  id: string;
+  name: string;
+  bounds: Bounds;
+  center: LatLng;
+  zoom: number;
+  /** IANA time zone departures are given in, e.g. "America/Los_Angeles" */
+  timeZone: string;
+  boundary: LatLng[];
+  origins: CatalogOrigin[];
+  defaultDestinations: DefaultDestination[];
+}
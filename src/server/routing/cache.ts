@@ -0,0 +1,158 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import { env } from "~/env";
+
+import { localTime } from "./departure";
+import {
+  type LatLng,
+  type RouteMatrixElement,
+  type RouteModifiers,
+} from "./types";
+
+export interface TravelTimeCacheKey {
+  origin: string;
+  destination: LatLng;
+  travelMode: string;
+  departureTime: Date;
+  timeZone: string;
+  trafficModel?: string;
+  routeModifiers?: RouteModifiers;
+}
+
+export type CachedElement = Pick<
+  RouteMatrixElement,
+  "status" | "duration" | "distance" | "condition" | "tollCost" | "tollCurrency"
+>;
+
+interface CacheEntry {
+  element: CachedElement;
+  storedAt: number;
+}
+
+// Departures are bucketed into weekday + 15 minute slots of the region's local time
+const SLOT_MINUTES = 15;
+
+export const departureSlot = (date: Date, timeZone: string) => {
+  const { weekday, hours, minutes } = localTime(date, timeZone);
+  const slot = Math.floor((hours * 60 + minutes) / SLOT_MINUTES) * SLOT_MINUTES;
+  return `${weekday}@${slot}`;
+};
+
+// ~11m at SF latitude, so re-geocoding the same building still hits
+const roundCoordinate = (value: number) => value.toFixed(4);
+
+/** Stable label for the enabled modifiers, e.g. "avoid=tolls+ferries"; empty when none are */
+export const routeModifiersKey = (modifiers: RouteModifiers = {}) => {
+  const avoided = [
+    modifiers.avoidTolls && "tolls",
+    modifiers.avoidHighways && "highways",
+    modifiers.avoidFerries && "ferries",
+  ].filter(Boolean);
+  return avoided.length > 0 ? `avoid=${avoided.join("+")}` : "";
+};
+
+export const cacheKey = ({
+  origin,
+  destination,
+  travelMode,
+  departureTime,
+  timeZone,
+  trafficModel,
+  routeModifiers,
+}: TravelTimeCacheKey) =>
+  [
+    origin,
+    `${roundCoordinate(destination.lat)},${roundCoordinate(destination.lng)}`,
+    // Plain keys stay as they were before traffic models and modifiers existed
+    [
+      trafficModel ? `${travelMode}:${trafficModel}` : travelMode,
+      routeModifiersKey(routeModifiers),
+    ]
+      .filter(Boolean)
+      .join(":"),
+    departureSlot(departureTime, timeZone),
+  ].join("|");
+
+/**
+ * File-backed cache of route matrix elements. The whole store is kept in memory and written back
+ * as a single JSON file, which is plenty for a few thousand origin/destination pairs.
+ */
+export const createTravelTimeCache = (path: string, ttlSeconds: number) => {
+  let loading: Promise<Map<string, CacheEntry>> | null = null;
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const read = async () => {
+    try {
+      const raw = await readFile(path, "utf8");
+      return new Map(
+        Object.entries(JSON.parse(raw) as Record<string, CacheEntry>),
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(
+          `Travel time cache at ${path} is unreadable, starting empty:`,
+          error,
+        );
+      }
+      return new Map<string, CacheEntry>();
+    }
+  };
+
+  // Read once, however many lookups arrive before the read finishes
+  const load = () => (loading ??= read());
+
+  const isFresh = (entry: CacheEntry) =>
+    Date.now() - entry.storedAt < ttlSeconds * 1000;
+
+  const persist = async () => {
+    const store = await load();
+    const fresh = Object.fromEntries(
+      [...store].filter(([, entry]) => isFresh(entry)),
+    );
+    await mkdir(dirname(path), { recursive: true });
+    // Write to a temp file first so a crash never leaves half a cache behind
+    const tempPath = `${path}.tmp`;
+    await writeFile(tempPath, JSON.stringify(fresh));
+    await rename(tempPath, path);
+  };
+
+  return {
+    async get(key: TravelTimeCacheKey): Promise<CachedElement | null> {
+      const store = await load();
+      const entry = store.get(cacheKey(key));
+      if (!entry) return null;
+      if (!isFresh(entry)) {
+        store.delete(cacheKey(key));
+        return null;
+      }
+      return entry.element;
+    },
+
+    async setMany(
+      items: Array<{ key: TravelTimeCacheKey; element: CachedElement }>,
+    ) {
+      if (items.length === 0) return;
+      const store = await load();
+      const storedAt = Date.now();
+      items.forEach(({ key, element }) => {
+        store.set(cacheKey(key), { element, storedAt });
+      });
+      // Serialize writes so concurrent requests don't race on the temp file
+      pendingWrite = pendingWrite.then(persist, persist);
+      await pendingWrite;
+    },
+  };
+};
+
+export type TravelTimeCache = ReturnType<typeof createTravelTimeCache>;
+
+let cache: TravelTimeCache | undefined;
+
+export const getTravelTimeCache = (): TravelTimeCache => {
+  cache ??= createTravelTimeCache(
+    env.TRAVEL_CACHE_PATH,
+    env.TRAVEL_CACHE_TTL_SECONDS,
+  );
+  return cache;
+};
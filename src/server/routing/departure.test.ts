@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import { localTime, resolveDeparture } from "./departure";
+
+const LOS_ANGELES = "America/Los_Angeles";
+
+// Sunday 18 October 2026, 5:00 in Los Angeles and 21:00 in Tokyo
+const NOW = new Date("2026-10-18T12:00:00Z");
+
+describe("resolveDeparture", () => {
+  it("resolves the next weekday and time in the region's time zone", () => {
+    expect(
+      resolveDeparture({ weekday: 1, time: "08:00" }, LOS_ANGELES, NOW),
+    ).toEqual(new Date("2026-10-19T15:00:00Z"));
+    expect(
+      resolveDeparture({ weekday: 1, time: "08:00" }, "Asia/Tokyo", NOW),
+    ).toEqual(new Date("2026-10-18T23:00:00Z"));
+  });
+
+  it("goes to next week once today's time has passed in the region", () => {
+    // Already 21:00 on Sunday in Tokyo, still early morning in Los Angeles
+    expect(
+      resolveDeparture({ weekday: 0, time: "08:00" }, "Asia/Tokyo", NOW),
+    ).toEqual(new Date("2026-10-24T23:00:00Z"));
+    expect(
+      resolveDeparture({ weekday: 0, time: "08:00" }, LOS_ANGELES, NOW),
+    ).toEqual(new Date("2026-10-18T15:00:00Z"));
+  });
+
+  it("pins a date to that day in the region and rejects past ones", () => {
+    expect(
+      resolveDeparture(
+        { weekday: 2, time: "17:30", date: "2026-12-01" },
+        LOS_ANGELES,
+        NOW,
+      ),
+    ).toEqual(new Date("2026-12-02T01:30:00Z"));
+    expect(
+      resolveDeparture(
+        { weekday: 3, time: "17:30", date: "2026-10-14" },
+        LOS_ANGELES,
+        NOW,
+      ),
+    ).toBeNull();
+  });
+
+  it("keeps the wall clock time across DST changes", () => {
+    // Clocks go back on 1 November, so the following Monday is on standard time
+    expect(
+      resolveDeparture(
+        { weekday: 1, time: "08:00" },
+        LOS_ANGELES,
+        new Date("2026-10-27T12:00:00Z"),
+      ),
+    ).toEqual(new Date("2026-11-02T16:00:00Z"));
+    // 2:30 doesn't exist on 14 March 2027; it lands an hour later
+    expect(
+      resolveDeparture(
+        { weekday: 0, time: "02:30", date: "2027-03-14" },
+        LOS_ANGELES,
+        NOW,
+      ),
+    ).toEqual(new Date("2027-03-14T10:30:00Z"));
+  });
+});
+
+describe("localTime", () => {
+  it("reads the clock in the given time zone", () => {
+    expect(localTime(NOW, LOS_ANGELES)).toEqual({
+      year: 2026,
+      month: 10,
+      day: 18,
+      weekday: 0,
+      hours: 5,
+      minutes: 0,
+    });
+    expect(localTime(NOW, "Asia/Tokyo")).toMatchObject({
+      weekday: 0,
+      hours: 21,
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { z } from "zod";
+
+/**
+ * When a trip leaves, in the region's time zone. `weekday` follows `Date#getDay` (0 = Sunday).
+ * A `date` pins the departure to that calendar day instead of the next matching weekday.
+ */
+export const departureSpecSchema = z.object({
+  weekday: z.number().int().min(0).max(6),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM"),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+    .optional(),
+});
+
+export type DepartureSpec = z.infer<typeof departureSpecSchema>;
+
+/** Wall clock reading of an instant in a time zone. `month` is 1-based, `weekday` 0 = Sunday. */
+export interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  hours: number;
+  minutes: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const localTime = (date: Date, timeZone: string): LocalTime => {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(date)
+      .map(({ type, value }) => [type, Number(value)]),
+  );
+  const { year = 0, month = 1, day = 1, hour = 0, minute = 0 } = parts;
+  return {
+    year,
+    month,
+    day,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    hours: hour,
+    minutes: minute,
+  };
+};
+
+/**
+ * The instant a wall clock in the time zone reads the given time. Out of range days roll over
+ * like `Date.UTC`; times skipped by a DST change land an hour later.
+ */
+const zonedDate = (
+  { year, month, day, hours, minutes }: Omit<LocalTime, "weekday">,
+  timeZone: string,
+) => {
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  // What the zone's clocks read at an instant, as if that reading were UTC
+  const readClock = (instant: number) => {
+    const local = localTime(new Date(instant), timeZone);
+    return Date.UTC(
+      local.year,
+      local.month - 1,
+      local.day,
+      local.hours,
+      local.minutes,
+    );
+  };
+  const guess = wallClock - (readClock(wallClock) - wallClock);
+  // The offset can change between the guess and the answer when a DST change falls in between
+  const adjusted = wallClock - (readClock(guess) - guess);
+  return new Date(readClock(adjusted) === wallClock ? adjusted : guess);
+};
+
+/**
+ * Resolve a departure spec to a concrete instant in the time zone. Without a date this is the next
+ * occurrence of the weekday and time strictly after `now`. Returns null when a pinned date is in
+ * the past.
+ */
+export const resolveDeparture = (
+  spec: DepartureSpec,
+  timeZone: string,
+  now = new Date(),
+): Date | null => {
+  const [hours = 0, minutes = 0] = spec.time.split(":").map(Number);
+
+  if (spec.date) {
+    const [year = 0, month = 1, day = 1] = spec.date.split("-").map(Number);
+    const pinned = zonedDate({ year, month, day, hours, minutes }, timeZone);
+    return pinned > now ? pinned : null;
+  }
+
+  const today = localTime(now, timeZone);
+  const daysAhead = (spec.weekday - today.weekday + 7) % 7;
+  const target = zonedDate(
+    { ...today, day: today.day + daysAhead, hours, minutes },
+    timeZone,
+  );
+
+  // Same weekday but the time already passed: go to next week
+  if (target <= now) {
+    return zonedDate(
+      { ...today, day: today.day + daysAhead + 7, hours, minutes },
+      timeZone,
+    );
+  }
+
+  return target;
+};
+
+// Monday first, the way people think about their week
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * Every departure slot in a week at the given resolution, e.g. 7 x 24 slots for 60 minutes.
+ */
+export const weeklySlots = (resolutionMinutes: number): DepartureSpec[] =>
+  WEEK_ORDER.flatMap((weekday) =>
+    Array.from(
+      { length: Math.floor((24 * 60) / resolutionMinutes) },
+      (_, i) => {
+        const minutes = i * resolutionMinutes;
+        const hh = Math.floor(minutes / 60)
+          .toString()
+          .padStart(2, "0");
+        const mm = (minutes % 60).toString().padStart(2, "0");
+        return { weekday, time: `${hh}:${mm}` };
+      },
+    ),
+  );
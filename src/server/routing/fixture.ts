@@ -0,0 +1,247 @@
+import { readFileSync } from "node:fs";
+
+import { isTrafficAware } from "~/lib/scoring";
+
+import { localTime } from "./departure";
+import { fillMatrix } from "./matrix";
+import {
+  type LatLng,
+  type RouteMatrixElement,
+  type RouteMatrixRequest,
+  type RoutingProvider,
+  type TrafficModel,
+  type TravelMode,
+  type Waypoint,
+} from "./types";
+
+/**
+ * A recorded matrix element. `origin` and `destination` are either the waypoint address or its
+ * coordinates as "lat,lng" with 4 decimals. `hour` is the local departure hour; recordings without
+ * one match any departure time. Recordings without a `travelMode` are driving times and only
+ * match requests without route modifiers.
+ */
+export interface FixtureRecord {
+  origin: string;
+  destination: string;
+  hour?: number;
+  travelMode?: TravelMode;
+  duration: number;
+  distance: number;
+  tollCost?: number;
+  tollCurrency?: string;
+}
+
+const EARTH_RADIUS_METERS = 6_371_000;
+// Roads are never straight lines
+const DETOUR_FACTOR = 1.3;
+// Typical city speeds in meters per second; driving is free flow (~30 mph) before congestion
+const SYNTHETIC_SPEEDS: Record<TravelMode, number> = {
+  DRIVE: 13.4,
+  TWO_WHEELER: 13.4,
+  TRANSIT: 7,
+  BICYCLE: 4.5,
+  WALK: 1.4,
+};
+
+export const waypointKeys = (waypoint: Waypoint) => [
+  ...(waypoint.address ? [waypoint.address] : []),
+  ...(waypoint.location
+    ? [
+        `${waypoint.location.lat.toFixed(4)},${waypoint.location.lng.toFixed(4)}`,
+      ]
+    : []),
+];
+
+const haversineMeters = (a: LatLng, b: LatLng) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * How much slower than free flow traffic is at a given local hour. Weekday peaks around 8AM and
+ * 5PM, weekends stay close to free flow.
+ */
+const congestionFactor = (date: Date, timeZone: string) => {
+  const { weekday: day, hours, minutes } = localTime(date, timeZone);
+  const hour = hours + minutes / 60;
+  const peak = (center: number, height: number) =>
+    height * Math.exp(-((hour - center) ** 2) / 2);
+
+  if (day === 0 || day === 6) {
+    return 1 + peak(14, 0.2);
+  }
+  return 1 + peak(8, 0.6) + peak(17.5, 0.8);
+};
+
+// Average wait for a transit vehicle, much longer once frequent service stops at night
+const transitWaitSeconds = (date: Date, timeZone: string) => {
+  const hour = localTime(date, timeZone).hours;
+  return hour >= 6 && hour < 22 ? 300 : 1200;
+};
+
+// How much of the usual congestion each traffic model assumes; pessimistic adds a little on top
+const TRAFFIC_MODEL_SCALE: Record<
+  TrafficModel,
+  { delay: number; extra: number }
+> = {
+  BEST_GUESS: { delay: 1, extra: 0 },
+  OPTIMISTIC: { delay: 0.5, extra: 0 },
+  PESSIMISTIC: { delay: 1.8, extra: 0.1 },
+};
+
+const syntheticDuration = (
+  distance: number,
+  travelMode: TravelMode,
+  departureTime: Date,
+  timeZone: string,
+  trafficModel: TrafficModel = "BEST_GUESS",
+) => {
+  const duration = distance / SYNTHETIC_SPEEDS[travelMode];
+  if (isTrafficAware(travelMode)) {
+    const { delay, extra } = TRAFFIC_MODEL_SCALE[trafficModel];
+    return (
+      duration *
+      (1 + (congestionFactor(departureTime, timeZone) - 1) * delay + extra)
+    );
+  }
+  if (travelMode === "TRANSIT") {
+    return duration + transitWaitSeconds(departureTime, timeZone);
+  }
+  return duration;
+};
+
+// Surface streets instead of freeways
+const AVOID_HIGHWAYS_SLOWDOWN = 1.25;
+
+// The Bay Bridge charges westbound only; avoiding it means going round the south of the bay
+const BAY_BRIDGE_TOLL_USD = 8;
+const BAY_BRIDGE_DETOUR_FACTOR = 2.5;
+
+const crossesBayBridgeWestbound = (origin: LatLng, destination: LatLng) => {
+  const inBayArea = (point: LatLng) => point.lat > 37.7 && point.lat < 37.9;
+  return (
+    inBayArea(origin) &&
+    inBayArea(destination) &&
+    origin.lng > -122.33 &&
+    destination.lng < -122.36
+  );
+};
+
+const loadRecords = (path: string | undefined): FixtureRecord[] => {
+  if (!path) return [];
+  return JSON.parse(readFileSync(path, "utf8")) as FixtureRecord[];
+};
+
+/**
+ * Deterministic provider for running without a routing backend. Recorded elements from
+ * `fixturePath` win; anything else with coordinates on both ends gets a synthetic travel time
+ * based on straight-line distance, a typical speed for the travel mode and, for driving, a
+ * time-of-day congestion curve and the Bay Bridge toll.
+ */
+export const createFixtureProvider = (
+  fixturePath: string | undefined,
+): RoutingProvider => {
+  let records: FixtureRecord[] | null = null;
+
+  const findRecord = (
+    origin: Waypoint,
+    destination: Waypoint,
+    hour: number,
+    travelMode: TravelMode,
+  ) => {
+    records ??= loadRecords(fixturePath);
+    const originKeys = waypointKeys(origin);
+    const destinationKeys = waypointKeys(destination);
+    const matches = records.filter(
+      (record) =>
+        originKeys.includes(record.origin) &&
+        destinationKeys.includes(record.destination) &&
+        (record.travelMode ?? "DRIVE") === travelMode,
+    );
+    return (
+      matches.find((record) => record.hour === hour) ??
+      matches.find((record) => record.hour === undefined)
+    );
+  };
+
+  return {
+    name: "fixture",
+    limits: { maxElements: 100_000, maxWaypoints: 1_000 },
+    trafficModelModes: ["DRIVE", "TWO_WHEELER"],
+
+    async computeRouteMatrix(
+      request: RouteMatrixRequest,
+    ): Promise<RouteMatrixElement[]> {
+      const hour = localTime(request.departureTime, request.timeZone).hours;
+
+      return fillMatrix(request, (originIndex, destinationIndex) => {
+        const origin = request.origins[originIndex]!;
+        const destination = request.destinations[destinationIndex]!;
+
+        const record = findRecord(
+          origin,
+          destination,
+          hour,
+          request.travelMode,
+        );
+        // Recordings are best-guess times without route modifiers
+        if (
+          record &&
+          (request.trafficModel ?? "BEST_GUESS") === "BEST_GUESS" &&
+          !Object.values(request.routeModifiers ?? {}).some(Boolean)
+        ) {
+          return {
+            duration: record.duration,
+            distance: record.distance,
+            tollCost: record.tollCost,
+            tollCurrency: record.tollCurrency,
+          };
+        }
+
+        if (!origin.location || !destination.location) return null;
+
+        const isRoadTrip = isTrafficAware(request.travelMode);
+        const modifiers = isRoadTrip ? (request.routeModifiers ?? {}) : {};
+        const paysBridgeToll =
+          isRoadTrip &&
+          crossesBayBridgeWestbound(origin.location, destination.location);
+
+        const distance =
+          haversineMeters(origin.location, destination.location) *
+          DETOUR_FACTOR *
+          (paysBridgeToll && modifiers.avoidTolls
+            ? BAY_BRIDGE_DETOUR_FACTOR
+            : 1);
+        const duration =
+          syntheticDuration(
+            distance,
+            request.travelMode,
+            request.departureTime,
+            request.timeZone,
+            request.trafficModel,
+          ) * (modifiers.avoidHighways ? AVOID_HIGHWAYS_SLOWDOWN : 1);
+
+        return {
+          duration: Math.round(duration),
+          distance: Math.round(distance),
+          ...(isRoadTrip
+            ? {
+                tollCost:
+                  paysBridgeToll && !modifiers.avoidTolls
+                    ? BAY_BRIDGE_TOLL_USD
+                    : 0,
+                tollCurrency: "USD",
+              }
+            : {}),
+        };
+      });
+    },
+  };
+};
@@ -0,0 +1,187 @@
+import { isTrafficAware } from "~/lib/scoring";
+
+import {
+  type FetchFn,
+  type RouteMatrixElement,
+  type RouteError,
+  type RouteMatrixRequest,
+  type RoutingProvider,
+  type Waypoint,
+  RoutingHttpError,
+} from "./types";
+
+const ROUTES_API_BASE_URL = "https://routes.googleapis.com";
+const ROUTE_MATRIX_PATH = "/distanceMatrix/v2:computeRouteMatrix";
+
+// Routes API response types
+interface RouteMatrixResponse {
+  originIndex?: number;
+  destinationIndex?: number;
+  status?: {
+    code?: number;
+    message?: string;
+  };
+  duration?: string;
+  distanceMeters?: number;
+  staticDuration?: string;
+  condition?: string;
+  travelAdvisory?: {
+    // Only set when the route is expected to have tolls
+    tollInfo?: {
+      estimatedPrice?: Array<{
+        currencyCode?: string;
+        units?: string;
+        nanos?: number;
+      }>;
+    };
+  };
+}
+
+// Google only estimates tolls for road modes. Avoiding tolls is best effort, so they're still
+// estimated then.
+const wantsTolls = (request: RouteMatrixRequest) =>
+  isTrafficAware(request.travelMode);
+
+const parseToll = (element: RouteMatrixResponse) => {
+  const tollInfo = element.travelAdvisory?.tollInfo;
+  if (!tollInfo) return { tollCost: 0 };
+  // Toll roads without a known price, and prices in several currencies, stay unknown
+  const prices = tollInfo.estimatedPrice ?? [];
+  if (prices.length !== 1) return {};
+  const [price] = prices;
+  return {
+    tollCost: Number(price!.units ?? 0) + (price!.nanos ?? 0) / 1e9,
+    tollCurrency: price!.currencyCode,
+  };
+};
+
+// Element statuses are google.rpc.Status, with a numeric gRPC code
+const parseError = (element: RouteMatrixResponse): RouteError =>
+  element.status && Object.keys(element.status).length > 0
+    ? {
+        code: element.status.code?.toString(),
+        message: element.status.message ?? "Routes API element error",
+      }
+    : { code: "ROUTE_NOT_FOUND", message: "No route found" };
+
+// Coordinates win over addresses: they route from the exact point shown on the map and don't
+// count towards the 50 address waypoint cap
+const toGoogleWaypoint = (waypoint: Waypoint) => {
+  if (waypoint.location) {
+    return {
+      waypoint: {
+        location: {
+          latLng: {
+            latitude: waypoint.location.lat,
+            longitude: waypoint.location.lng,
+          },
+        },
+      },
+    };
+  }
+  if (waypoint.address) {
+    return { waypoint: { address: waypoint.address } };
+  }
+  throw new Error("Waypoint needs either an address or a location");
+};
+
+export const createGoogleRoutesProvider = (
+  apiKey: string | undefined,
+  fetchFn: FetchFn = fetch,
+  baseUrl = ROUTES_API_BASE_URL,
+): RoutingProvider => ({
+  name: "google",
+  // Only the element count is capped for coordinate waypoints
+  limits: { maxElements: 625, maxWaypoints: Infinity },
+  // Transit and TRAFFIC_AWARE_OPTIMAL matrices are capped at 100 elements
+  limitsFor: (request) =>
+    request.travelMode === "TRANSIT" || request.trafficModel
+      ? { maxElements: 100, maxWaypoints: Infinity }
+      : { maxElements: 625, maxWaypoints: Infinity },
+  trafficModelModes: ["DRIVE"],
+
+  async computeRouteMatrix(
+    request: RouteMatrixRequest,
+  ): Promise<RouteMatrixElement[]> {
+    if (!apiKey) {
+      throw new Error(
+        'GOOGLE_MAPS_API_KEY is required when ROUTING_PROVIDER is "google"',
+      );
+    }
+
+    // Build Routes API request body according to official docs
+    const requestBody = {
+      origins: request.origins.map(toGoogleWaypoint),
+      destinations: request.destinations.map(toGoogleWaypoint),
+      travelMode: request.travelMode,
+      // Google rejects a routing preference for modes that ignore traffic, and only takes a
+      // traffic model with the slower TRAFFIC_AWARE_OPTIMAL preference
+      ...(request.trafficModel
+        ? {
+            routingPreference: "TRAFFIC_AWARE_OPTIMAL",
+            trafficModel: request.trafficModel,
+          }
+        : isTrafficAware(request.travelMode)
+          ? { routingPreference: "TRAFFIC_AWARE" }
+          : {}),
+      departureTime: request.departureTime.toISOString(),
+      ...(isTrafficAware(request.travelMode) && request.routeModifiers
+        ? { routeModifiers: request.routeModifiers }
+        : {}),
+      ...(wantsTolls(request) ? { extraComputations: ["TOLLS"] } : {}),
+    };
+
+    const response = await fetchFn(`${baseUrl}${ROUTE_MATRIX_PATH}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Goog-Api-Key": apiKey,
+        "X-Goog-FieldMask": wantsTolls(request)
+          ? "originIndex,destinationIndex,duration,distanceMeters,status,condition,travelAdvisory.tollInfo"
+          : "originIndex,destinationIndex,duration,distanceMeters,status,condition",
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new RoutingHttpError(
+        `Routes API error: ${response.status} - ${errorText}`,
+        response.status,
+      );
+    }
+
+    const responseText = await response.text();
+    if (!responseText.trim()) {
+      throw new Error("Empty response from Routes API");
+    }
+
+    // According to the docs the Routes API returns an array directly
+    const data: unknown = JSON.parse(responseText);
+    const routeMatrix = Array.isArray(data)
+      ? (data as RouteMatrixResponse[])
+      : [data as RouteMatrixResponse];
+
+    return routeMatrix.map((element) => {
+      // An empty status object means the request for this pair worked, which includes finding
+      // out there's no route
+      const hasError =
+        !!element.status && Object.keys(element.status).length > 0;
+      const isSuccess = !hasError && element.condition !== "ROUTE_NOT_FOUND";
+
+      return {
+        originIndex: element.originIndex ?? 0,
+        destinationIndex: element.destinationIndex ?? 0,
+        status: isSuccess ? "OK" : "FAILED",
+        // Durations come back in protobuf format (e.g. "1234s")
+        duration: element.duration
+          ? parseFloat(element.duration.replace("s", ""))
+          : 0,
+        distance: element.distanceMeters ?? 0,
+        condition: element.condition,
+        ...(isSuccess && wantsTolls(request) ? parseToll(element) : {}),
+        ...(isSuccess ? {} : { error: parseError(element) }),
+      };
+    });
+  },
+});
@@ -0,0 +1,51 @@
+import { env } from "~/env";
+
+import { createFixtureProvider } from "./fixture";
+import { createGoogleRoutesProvider } from "./google";
+import { createOsrmProvider } from "./osrm";
+import { getRequestScheduler } from "./scheduler";
+import { type RoutingProvider } from "./types";
+import { createValhallaProvider } from "./valhalla";
+
+export * from "./types";
+export {
+  getTravelTimeCache,
+  routeModifiersKey,
+  type CachedElement,
+} from "./cache";
+export { computeChunkedMatrix } from "./matrix";
+export { getRequestScheduler } from "./scheduler";
+
+let provider: RoutingProvider | undefined;
+
+/**
+ * Returns the routing provider selected by `ROUTING_PROVIDER`. The instance is shared so
+ * providers can keep state (e.g. loaded fixtures) between requests.
+ */
+export const getRoutingProvider = (): RoutingProvider => {
+  if (provider) return provider;
+
+  // Every outbound routing request goes through the shared scheduler
+  const { fetch: scheduledFetch } = getRequestScheduler();
+
+  switch (env.ROUTING_PROVIDER) {
+    case "google":
+      provider = createGoogleRoutesProvider(
+        env.GOOGLE_MAPS_API_KEY,
+        scheduledFetch,
+        env.GOOGLE_API_BASE_URL,
+      );
+      break;
+    case "osrm":
+      provider = createOsrmProvider(env.ROUTING_BASE_URL, scheduledFetch);
+      break;
+    case "valhalla":
+      provider = createValhallaProvider(env.ROUTING_BASE_URL, scheduledFetch);
+      break;
+    case "fixture":
+      provider = createFixtureProvider(env.ROUTING_FIXTURE_PATH);
+      break;
+  }
+
+  return provider;
+};
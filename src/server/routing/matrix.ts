@@ -0,0 +1,166 @@
+import {
+  type MatrixLimits,
+  type RouteMatrixElement,
+  type RouteMatrixRequest,
+  type RoutingProvider,
+  type Waypoint,
+  toRouteError,
+} from "./types";
+
+/**
+ * Coordinate-only routers can't resolve addresses, so split the waypoints into the ones we can
+ * send and remember where each one came from.
+ */
+export const locatedWaypoints = (waypoints: Waypoint[]) =>
+  waypoints.flatMap((waypoint, index) =>
+    waypoint.location ? [{ index, location: waypoint.location }] : [],
+  );
+
+/**
+ * Build the full origin x destination matrix, marking every pair the router never saw as failed.
+ */
+export const fillMatrix = (
+  request: RouteMatrixRequest,
+  lookup: (
+    originIndex: number,
+    destinationIndex: number,
+  ) => Pick<
+    RouteMatrixElement,
+    "duration" | "distance" | "tollCost" | "tollCurrency"
+  > | null,
+): RouteMatrixElement[] =>
+  request.origins.flatMap((_, originIndex) =>
+    request.destinations.map((_, destinationIndex) => {
+      const value = lookup(originIndex, destinationIndex);
+      return value
+        ? { originIndex, destinationIndex, status: "OK" as const, ...value }
+        : {
+            originIndex,
+            destinationIndex,
+            status: "FAILED" as const,
+            duration: 0,
+            distance: 0,
+            error: { code: "ROUTE_NOT_FOUND", message: "No route found" },
+          };
+    }),
+  );
+
+export interface MatrixChunk {
+  originStart: number;
+  originEnd: number;
+  destinationStart: number;
+  destinationEnd: number;
+}
+
+/**
+ * Split an origins x destinations matrix into as few requests as the limits allow. Tries every
+ * destination chunk size and keeps the one needing the fewest requests.
+ */
+export const planChunks = (
+  originCount: number,
+  destinationCount: number,
+  { maxElements, maxWaypoints }: MatrixLimits,
+): MatrixChunk[] => {
+  if (originCount === 0 || destinationCount === 0) return [];
+
+  let best: { originSize: number; destinationSize: number } | null = null;
+  let bestRequests = Infinity;
+  const maxDestinationSize = Math.min(destinationCount, maxWaypoints - 1);
+
+  for (
+    let destinationSize = 1;
+    destinationSize <= maxDestinationSize;
+    destinationSize++
+  ) {
+    const originSize = Math.min(
+      originCount,
+      Math.floor(maxElements / destinationSize),
+      maxWaypoints - destinationSize,
+    );
+    if (originSize < 1) break;
+
+    const requests =
+      Math.ceil(originCount / originSize) *
+      Math.ceil(destinationCount / destinationSize);
+    if (requests < bestRequests) {
+      best = { originSize, destinationSize };
+      bestRequests = requests;
+    }
+  }
+
+  if (!best) {
+    throw new Error("Matrix limits don't allow even a single element");
+  }
+
+  const chunks: MatrixChunk[] = [];
+  for (let o = 0; o < originCount; o += best.originSize) {
+    for (let d = 0; d < destinationCount; d += best.destinationSize) {
+      chunks.push({
+        originStart: o,
+        originEnd: Math.min(o + best.originSize, originCount),
+        destinationStart: d,
+        destinationEnd: Math.min(d + best.destinationSize, destinationCount),
+      });
+    }
+  }
+  return chunks;
+};
+
+/**
+ * Run a matrix of any size through the provider in chunks, mapping each chunk's indices back onto
+ * the full request. Every pair of a failed chunk comes back failed with the chunk's error.
+ */
+export const computeChunkedMatrix = async (
+  provider: RoutingProvider,
+  request: RouteMatrixRequest,
+): Promise<RouteMatrixElement[]> => {
+  const chunks = planChunks(
+    request.origins.length,
+    request.destinations.length,
+    provider.limitsFor?.(request) ?? provider.limits,
+  );
+
+  // Chunks run in parallel; the request scheduler keeps that within the provider's rate limits
+  const results = await Promise.all(
+    chunks.map(async (chunk) => {
+      try {
+        const elements = await provider.computeRouteMatrix({
+          ...request,
+          origins: request.origins.slice(chunk.originStart, chunk.originEnd),
+          destinations: request.destinations.slice(
+            chunk.destinationStart,
+            chunk.destinationEnd,
+          ),
+        });
+        return elements.map((element) => ({
+          ...element,
+          originIndex: element.originIndex + chunk.originStart,
+          destinationIndex: element.destinationIndex + chunk.destinationStart,
+        }));
+      } catch (error) {
+        console.error(
+          `${provider.name} matrix chunk failed (origins ${chunk.originStart}-${chunk.originEnd - 1}, destinations ${chunk.destinationStart}-${chunk.destinationEnd - 1}):`,
+          error,
+        );
+        const chunkError = toRouteError(error);
+        return Array.from(
+          { length: chunk.originEnd - chunk.originStart },
+          (_, o) =>
+            Array.from(
+              { length: chunk.destinationEnd - chunk.destinationStart },
+              (_, d) => ({
+                originIndex: chunk.originStart + o,
+                destinationIndex: chunk.destinationStart + d,
+                status: "FAILED" as const,
+                duration: 0,
+                distance: 0,
+                error: chunkError,
+              }),
+            ),
+        ).flat();
+      }
+    }),
+  );
+
+  return results.flat();
+};
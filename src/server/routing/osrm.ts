@@ -0,0 +1,121 @@
+import { isTrafficAware } from "~/lib/scoring";
+
+import { fillMatrix, locatedWaypoints } from "./matrix";
+import {
+  type FetchFn,
+  type LatLng,
+  type RouteMatrixElement,
+  type RouteMatrixRequest,
+  type RoutingProvider,
+  type TravelMode,
+  RoutingHttpError,
+} from "./types";
+
+// OSRM table service response (only the fields we request)
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  durations?: (number | null)[][];
+  distances?: (number | null)[][];
+}
+
+// Profile names used by the stock OSRM profiles; OSRM has no transit routing
+const OSRM_PROFILES: Partial<Record<TravelMode, string>> = {
+  DRIVE: "driving",
+  TWO_WHEELER: "driving",
+  BICYCLE: "cycling",
+  WALK: "foot",
+};
+
+// Exclude classes defined by the stock car profile
+const excludeClasses = (request: RouteMatrixRequest) => {
+  const modifiers = request.routeModifiers;
+  if (!modifiers || !isTrafficAware(request.travelMode)) return [];
+  return [
+    modifiers.avoidTolls && "toll",
+    modifiers.avoidHighways && "motorway",
+    modifiers.avoidFerries && "ferry",
+  ].filter((value): value is string => Boolean(value));
+};
+
+const formatCoordinate = ({ lat, lng }: LatLng) => `${lng},${lat}`;
+
+export const createOsrmProvider = (
+  baseUrl: string | undefined,
+  fetchFn: FetchFn = fetch,
+  profiles = OSRM_PROFILES,
+): RoutingProvider => ({
+  name: "osrm",
+  // OSRM's default --max-table-size
+  limits: { maxElements: 10_000, maxWaypoints: 100 },
+
+  async computeRouteMatrix(
+    request: RouteMatrixRequest,
+  ): Promise<RouteMatrixElement[]> {
+    if (!baseUrl) {
+      throw new Error(
+        'ROUTING_BASE_URL is required when ROUTING_PROVIDER is "osrm"',
+      );
+    }
+
+    const profile = profiles[request.travelMode];
+    if (!profile) {
+      throw new Error(`OSRM can't route ${request.travelMode} trips`);
+    }
+
+    const origins = locatedWaypoints(request.origins);
+    const destinations = locatedWaypoints(request.destinations);
+    if (origins.length === 0 || destinations.length === 0) {
+      return fillMatrix(request, () => null);
+    }
+
+    const coordinates = [...origins, ...destinations]
+      .map((waypoint) => formatCoordinate(waypoint.location))
+      .join(";");
+    const sources = origins.map((_, i) => i).join(";");
+    const targets = destinations.map((_, i) => origins.length + i).join(";");
+
+    const url = new URL(
+      `${baseUrl.replace(/\/$/, "")}/table/v1/${profile}/${coordinates}`,
+    );
+    url.searchParams.set("sources", sources);
+    url.searchParams.set("destinations", targets);
+    url.searchParams.set("annotations", "duration,distance");
+    const exclude = excludeClasses(request);
+    if (exclude.length > 0) url.searchParams.set("exclude", exclude.join(","));
+
+    const response = await fetchFn(url);
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new RoutingHttpError(
+        `OSRM error: ${response.status} - ${errorText}`,
+        response.status,
+      );
+    }
+
+    const data = (await response.json()) as OsrmTableResponse;
+    if (data.code !== "Ok") {
+      throw new Error(`OSRM error: ${data.code} - ${data.message ?? ""}`);
+    }
+
+    // Map request indices back to positions in the table
+    const originRows = new Map(origins.map((o, row) => [o.index, row]));
+    const destinationColumns = new Map(
+      destinations.map((d, column) => [d.index, column]),
+    );
+
+    return fillMatrix(request, (originIndex, destinationIndex) => {
+      const row = originRows.get(originIndex);
+      const column = destinationColumns.get(destinationIndex);
+      if (row === undefined || column === undefined) return null;
+
+      const duration = data.durations?.[row]?.[column];
+      if (duration === null || duration === undefined) return null;
+
+      return {
+        duration,
+        distance: data.distances?.[row]?.[column] ?? 0,
+      };
+    });
+  },
+});
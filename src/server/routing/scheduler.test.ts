@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createRequestScheduler,
+  parseRetryAfter,
+  type SchedulerOptions,
+} from "./scheduler";
+import { type FetchFn } from "./types";
+
+const MATRIX_URL = "https://routes.example.com/matrix";
+
+// Answers each call with the next response, or throws it when it's an error
+const scriptedFetch = (script: Array<Response | Error>) => {
+  const calls: number[] = [];
+  const fetch: FetchFn = async () => {
+    calls.push(Date.now());
+    const next = script.shift();
+    if (!next) throw new Error("Unexpected request");
+    if (next instanceof Error) throw next;
+    return next;
+  };
+  return { fetch, calls };
+};
+
+const schedulerWith = (
+  fetch: FetchFn,
+  options: Partial<SchedulerOptions> = {},
+) =>
+  createRequestScheduler({
+    concurrency: 4,
+    requestsPerSecond: 100,
+    maxRetries: 3,
+    baseDelayMs: 1,
+    maxDelayMs: 50,
+    fetch,
+    ...options,
+  });
+
+describe("createRequestScheduler", () => {
+  it("retries 429s, 5xx and network errors until a request succeeds", async () => {
+    const { fetch, calls } = scriptedFetch([
+      new Response(null, { status: 503 }),
+      new TypeError("fetch failed"),
+      new Response(null, { status: 429 }),
+      new Response("ok"),
+    ]);
+
+    const response = await schedulerWith(fetch).fetch(MATRIX_URL);
+    expect(await response.text()).toBe("ok");
+    expect(calls).toHaveLength(4);
+  });
+
+  it("hands back client errors without retrying", async () => {
+    const { fetch, calls } = scriptedFetch([
+      new Response(null, { status: 400 }),
+    ]);
+
+    expect((await schedulerWith(fetch).fetch(MATRIX_URL)).status).toBe(400);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("returns the last response, or throws the last error, once retries run out", async () => {
+    const failing = scriptedFetch([
+      new Response(null, { status: 500 }),
+      new Response(null, { status: 502 }),
+    ]);
+    expect(
+      (await schedulerWith(failing.fetch, { maxRetries: 1 }).fetch(MATRIX_URL))
+        .status,
+    ).toBe(502);
+
+    const offline = scriptedFetch([
+      new TypeError("fetch failed"),
+      new TypeError("still offline"),
+    ]);
+    await expect(
+      schedulerWith(offline.fetch, { maxRetries: 1 }).fetch(MATRIX_URL),
+    ).rejects.toThrow("still offline");
+  });
+
+  it("waits as long as Retry-After asks, up to the longest delay", async () => {
+    const { fetch, calls } = scriptedFetch([
+      new Response(null, { status: 429, headers: { "Retry-After": "3600" } }),
+      new Response("ok"),
+    ]);
+
+    await schedulerWith(fetch, { maxDelayMs: 100 }).fetch(MATRIX_URL);
+    const waited = calls[1]! - calls[0]!;
+    expect(waited).toBeGreaterThanOrEqual(90);
+    expect(waited).toBeLessThan(1000);
+  });
+
+  it("spaces requests out once the bucket is empty", async () => {
+    const { fetch, calls } = scriptedFetch([
+      new Response("1"),
+      new Response("2"),
+      new Response("3"),
+    ]);
+    const scheduler = schedulerWith(fetch, { requestsPerSecond: 2 });
+
+    await Promise.all([1, 2, 3].map(() => scheduler.fetch(MATRIX_URL)));
+    // Two go at once, and the third waits half a second for a token
+    expect(calls[1]! - calls[0]!).toBeLessThan(100);
+    expect(calls[2]! - calls[0]!).toBeGreaterThanOrEqual(400);
+  });
+
+  it("lets requests through at less than one a second", async () => {
+    const { fetch, calls } = scriptedFetch([new Response("ok")]);
+
+    await schedulerWith(fetch, { requestsPerSecond: 0.5 }).fetch(MATRIX_URL);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("keeps at most `concurrency` requests in flight", async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    const fetch: FetchFn = async () => {
+      mostInFlight = Math.max(mostInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      inFlight--;
+      return new Response("ok");
+    };
+    const scheduler = schedulerWith(fetch, { concurrency: 2 });
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => scheduler.fetch(MATRIX_URL)));
+    expect(mostInFlight).toBe(2);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds or an HTTP date", () => {
+    const now = Date.parse("2026-10-18T12:00:00Z");
+    expect(parseRetryAfter("2", now)).toBe(2000);
+    expect(parseRetryAfter("Sun, 18 Oct 2026 12:00:05 GMT", now)).toBe(5000);
+    expect(parseRetryAfter("Sun, 18 Oct 2026 11:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import { env } from "~/env";
+
+import { type FetchFn } from "./types";
+
+export interface SchedulerOptions {
+  /** Requests in flight at once */
+  concurrency: number;
+  /**
+   * Token bucket refill rate; also the bucket size, so bursts last at most a second. The bucket
+   * always holds at least one token, so rates below one a second still get through.
+   */
+  requestsPerSecond: number;
+  /** Retries after the first attempt for 429, 5xx and network errors */
+  maxRetries: number;
+  baseDelayMs: number;
+  /** Longest wait between attempts, a server's Retry-After included */
+  maxDelayMs: number;
+  /** Defaults to the global fetch */
+  fetch?: FetchFn;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Delay requested by a Retry-After header, which is either a number of seconds or an HTTP date.
+ */
+export const parseRetryAfter = (
+  header: string | null,
+  now = Date.now(),
+): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Shared gate for every outbound routing and geocoding request: limits concurrency, spaces requests
+ * with a token bucket and retries transient failures with exponential backoff and full jitter,
+ * preferring the server's Retry-After when it sends one. Once retries run out the last response is
+ * returned (or the last network error thrown) so callers handle failures as before.
+ */
+export const createRequestScheduler = (options: SchedulerOptions) => {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  const fetchFn = options.fetch ?? fetch;
+  const bucketSize = Math.max(1, options.requestsPerSecond);
+  let tokens = bucketSize;
+  let lastRefill = Date.now();
+
+  const acquireSlot = async () => {
+    if (active < options.concurrency) {
+      active++;
+      return;
+    }
+    // The releasing request hands its slot straight over
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  const releaseSlot = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  const takeToken = async () => {
+    for (;;) {
+      const now = Date.now();
+      tokens = Math.min(
+        bucketSize,
+        tokens + ((now - lastRefill) / 1000) * options.requestsPerSecond,
+      );
+      lastRefill = now;
+
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(((1 - tokens) / options.requestsPerSecond) * 1000);
+    }
+  };
+
+  const backoffDelay = (attempt: number) =>
+    Math.random() *
+    Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+
+  const scheduledFetch = async (
+    input: string | URL,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt >= options.maxRetries;
+
+      let response: Response | null = null;
+      let networkError: unknown = null;
+
+      await acquireSlot();
+      try {
+        await takeToken();
+        response = await fetchFn(input, init);
+      } catch (error) {
+        networkError = error;
+      } finally {
+        releaseSlot();
+      }
+
+      // Backoff sleeps happen outside the slot so other requests can proceed
+      if (!response) {
+        if (isLastAttempt) throw networkError;
+        console.warn(
+          `Request to ${new URL(input).host} failed, retrying (${attempt + 1}/${options.maxRetries}):`,
+          networkError,
+        );
+        await sleep(backoffDelay(attempt));
+        continue;
+      }
+
+      if (!isRetryableStatus(response.status) || isLastAttempt) {
+        return response;
+      }
+
+      // A server asking for an hour shouldn't stall a load for that long
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+      const delay =
+        retryAfter === null
+          ? backoffDelay(attempt)
+          : Math.min(retryAfter, options.maxDelayMs);
+      console.warn(
+        `Request to ${new URL(input).host} returned ${response.status}, retrying in ${Math.round(delay)}ms (${attempt + 1}/${options.maxRetries})`,
+      );
+      await response.body?.cancel();
+      await sleep(delay);
+    }
+  };
+
+  return { fetch: scheduledFetch };
+};
+
+export type RequestScheduler = ReturnType<typeof createRequestScheduler>;
+
+let scheduler: RequestScheduler | undefined;
+
+export const getRequestScheduler = (): RequestScheduler => {
+  scheduler ??= createRequestScheduler({
+    concurrency: env.ROUTING_CONCURRENCY,
+    requestsPerSecond: env.ROUTING_REQUESTS_PER_SECOND,
+    maxRetries: env.ROUTING_MAX_RETRIES,
+    baseDelayMs: 500,
+    maxDelayMs: 30_000,
+  });
+  return scheduler;
+};
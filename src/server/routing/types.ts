@@ -0,0 +1,121 @@
+import { type RouteError } from "~/lib/failures";
+
+// Shared with the client, which reports failures the same way
+export { type RouteError };
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * A point the router should route from or to. Providers use `location` when it's set; only Google
+ * can fall back to geocoding the address.
+ */
+export interface Waypoint {
+  address?: string;
+  location?: LatLng;
+}
+
+export const TRAVEL_MODES = [
+  "DRIVE",
+  "TRANSIT",
+  "BICYCLE",
+  "WALK",
+  "TWO_WHEELER",
+] as const;
+
+export type TravelMode = (typeof TRAVEL_MODES)[number];
+
+/**
+ * Assumption a traffic-aware router makes about traffic: the usual travel time, or a faster or
+ * slower than usual one for the same departure.
+ */
+export const TRAFFIC_MODELS = [
+  "BEST_GUESS",
+  "OPTIMISTIC",
+  "PESSIMISTIC",
+] as const;
+
+export type TrafficModel = (typeof TRAFFIC_MODELS)[number];
+
+/** Road features to route around. Only road modes honour them. */
+export interface RouteModifiers {
+  avoidTolls?: boolean;
+  avoidHighways?: boolean;
+  avoidFerries?: boolean;
+}
+
+export type FetchFn = (
+  input: string | URL,
+  init?: RequestInit,
+) => Promise<Response>;
+
+export interface RouteMatrixRequest {
+  origins: Waypoint[];
+  destinations: Waypoint[];
+  departureTime: Date;
+  /** IANA time zone of the region being routed, for providers that take a local departure time */
+  timeZone: string;
+  travelMode: TravelMode;
+  /** Only sent to providers that list the travel mode in `trafficModelModes` */
+  trafficModel?: TrafficModel;
+  routeModifiers?: RouteModifiers;
+}
+
+/** A matrix request the router answered with an HTTP error status */
+export class RoutingHttpError extends Error {
+  constructor(
+    message: string,
+    readonly httpStatus: number,
+  ) {
+    super(message);
+    this.name = "RoutingHttpError";
+  }
+}
+
+/** The reason to report for a request that threw */
+export const toRouteError = (error: unknown): RouteError => ({
+  message: error instanceof Error ? error.message : "Unknown error",
+  ...(error instanceof RoutingHttpError
+    ? { httpStatus: error.httpStatus }
+    : {}),
+});
+
+export interface RouteMatrixElement {
+  originIndex: number;
+  destinationIndex: number;
+  status: "OK" | "FAILED";
+  /** Only set on failed elements */
+  error?: RouteError;
+  /** Travel time in seconds */
+  duration: number;
+  /** Travel distance in meters */
+  distance: number;
+  condition?: string;
+  /** Estimated toll for the trip in `tollCurrency`; 0 for toll-free routes, unset when unknown */
+  tollCost?: number;
+  tollCurrency?: string;
+}
+
+/**
+ * How big a single matrix request may be. Larger matrices are split into chunks that respect both.
+ */
+export interface MatrixLimits {
+  /** Maximum origins x destinations per request */
+  maxElements: number;
+  /** Maximum origins + destinations per request */
+  maxWaypoints: number;
+}
+
+export interface RoutingProvider {
+  name: string;
+  limits: MatrixLimits;
+  /** Tighter limits for particular requests, e.g. some travel modes */
+  limitsFor?: (request: RouteMatrixRequest) => MatrixLimits;
+  /** Travel modes this provider can time under each traffic model */
+  trafficModelModes?: TravelMode[];
+  computeRouteMatrix: (
+    request: RouteMatrixRequest,
+  ) => Promise<RouteMatrixElement[]>;
+}
@@ -0,0 +1,135 @@
+import { isTrafficAware } from "~/lib/scoring";
+
+import { localTime } from "./departure";
+import { fillMatrix, locatedWaypoints } from "./matrix";
+import {
+  type FetchFn,
+  type RouteMatrixElement,
+  type RouteMatrixRequest,
+  type RoutingProvider,
+  type TravelMode,
+  RoutingHttpError,
+} from "./types";
+
+// Valhalla matrix response (distances are in kilometers by default)
+interface ValhallaMatrixResponse {
+  sources_to_targets: Array<
+    Array<{
+      from_index: number;
+      to_index: number;
+      time: number | null;
+      distance: number | null;
+    }>
+  >;
+}
+
+// Valhalla wants a local "YYYY-MM-DDTHH:mm" string for the departure
+const formatDateTime = (date: Date, timeZone: string) => {
+  const { year, month, day, hours, minutes } = localTime(date, timeZone);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hours)}:${pad(minutes)}`;
+};
+
+// Valhalla's matrix service doesn't do multimodal (transit) costing
+const VALHALLA_COSTINGS: Partial<Record<TravelMode, string>> = {
+  DRIVE: "auto",
+  TWO_WHEELER: "motor_scooter",
+  BICYCLE: "bicycle",
+  WALK: "pedestrian",
+};
+
+// Valhalla weighs features from 0 (avoid) to 1 (prefer) rather than excluding them outright
+const costingOptions = (request: RouteMatrixRequest) => {
+  const modifiers = request.routeModifiers;
+  if (!modifiers || !isTrafficAware(request.travelMode)) return {};
+  return {
+    ...(modifiers.avoidTolls ? { use_tolls: 0 } : {}),
+    ...(modifiers.avoidHighways ? { use_highways: 0 } : {}),
+    ...(modifiers.avoidFerries ? { use_ferry: 0 } : {}),
+  };
+};
+
+export const createValhallaProvider = (
+  baseUrl: string | undefined,
+  fetchFn: FetchFn = fetch,
+  costings = VALHALLA_COSTINGS,
+): RoutingProvider => ({
+  name: "valhalla",
+  // Valhalla's default service_limits for auto matrices
+  limits: { maxElements: 2_500, maxWaypoints: 100 },
+
+  async computeRouteMatrix(
+    request: RouteMatrixRequest,
+  ): Promise<RouteMatrixElement[]> {
+    if (!baseUrl) {
+      throw new Error(
+        'ROUTING_BASE_URL is required when ROUTING_PROVIDER is "valhalla"',
+      );
+    }
+
+    const costing = costings[request.travelMode];
+    if (!costing) {
+      throw new Error(`Valhalla can't route ${request.travelMode} trips`);
+    }
+
+    const origins = locatedWaypoints(request.origins);
+    const destinations = locatedWaypoints(request.destinations);
+    if (origins.length === 0 || destinations.length === 0) {
+      return fillMatrix(request, () => null);
+    }
+
+    const response = await fetchFn(
+      `${baseUrl.replace(/\/$/, "")}/sources_to_targets`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sources: origins.map(({ location }) => ({
+            lat: location.lat,
+            lon: location.lng,
+          })),
+          targets: destinations.map(({ location }) => ({
+            lat: location.lat,
+            lon: location.lng,
+          })),
+          costing,
+          costing_options: { [costing]: costingOptions(request) },
+          // type 1 = depart at
+          date_time: {
+            type: 1,
+            value: formatDateTime(request.departureTime, request.timeZone),
+          },
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new RoutingHttpError(
+        `Valhalla error: ${response.status} - ${errorText}`,
+        response.status,
+      );
+    }
+
+    const data = (await response.json()) as ValhallaMatrixResponse;
+
+    const originRows = new Map(origins.map((o, row) => [o.index, row]));
+    const destinationColumns = new Map(
+      destinations.map((d, column) => [d.index, column]),
+    );
+
+    return fillMatrix(request, (originIndex, destinationIndex) => {
+      const row = originRows.get(originIndex);
+      const column = destinationColumns.get(destinationIndex);
+      if (row === undefined || column === undefined) return null;
+
+      const cell = data.sources_to_targets[row]?.[column];
+      if (cell?.time === null || cell?.time === undefined) return null;
+
+      return {
+        duration: cell.time,
+        distance: (cell.distance ?? 0) * 1000,
+      };
+    });
+  },
+});